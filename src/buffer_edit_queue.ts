@@ -0,0 +1,177 @@
+import { Logger } from "./logger";
+
+export interface BufferLinesChange {
+    kind: "lines";
+    bufferId: number;
+    tick: number;
+    /**
+     * Zero based first changed line
+     */
+    firstLine: number;
+    /**
+     * Zero based last changed line, exclusive. Can be out of the document lines
+     */
+    lastLine: number;
+    data: string[];
+}
+
+/**
+ * Byte level change. Positions are zero based, columns are in bytes
+ */
+export interface BufferBytesChange {
+    kind: "bytes";
+    bufferId: number;
+    tick: number;
+    startLine: number;
+    startCol: number;
+    /**
+     * End of the replaced text, exclusive
+     */
+    endLine: number;
+    endCol: number;
+    /**
+     * New text lines
+     */
+    data: string[];
+}
+
+export type BufferChange = BufferLinesChange | BufferBytesChange;
+
+export type BufferChangesApplier = (bufferId: number, changes: BufferChange[]) => Promise<void>;
+
+/**
+ * Applies neovim buffer changes to vscode documents. Changes for each buffer are applied in the tick order
+ * and only one edit per buffer is in flight, since vscode doesn't allow to apply multiple edits to the same document
+ * without awaiting previous result. Changes coming in the meantime are accumulated and applied together
+ */
+export class BufferEditQueue {
+    /**
+     * Pending changes for each buffer, sorted by tick
+     */
+    private pendingChanges: Map<number, BufferChange[]> = new Map();
+    /**
+     * Multipart changes waiting for the last part
+     */
+    private incompleteChanges: Map<number, BufferLinesChange> = new Map();
+    /**
+     * Buffers with currently applying edit
+     */
+    private applyingBuffers: Set<number> = new Set();
+
+    private drainWaiters: Array<() => void> = [];
+
+    private applier: BufferChangesApplier;
+    /**
+     * Queue is considered saturated when it has more pending changes than this
+     */
+    private highWaterMark: number;
+
+    private logger: Logger;
+
+    public constructor(applier: BufferChangesApplier, highWaterMark = 50, logger = new Logger("none")) {
+        this.applier = applier;
+        this.highWaterMark = highWaterMark;
+        this.logger = logger;
+    }
+
+    /**
+     * Number of pending changes, including the ones being applied
+     */
+    public get size(): number {
+        let size = 0;
+        for (const changes of this.pendingChanges.values()) {
+            size += changes.length;
+        }
+        return size + this.applyingBuffers.size;
+    }
+
+    /**
+     * Indicates that vscode can't keep up with neovim changes and producers should wait for drain
+     */
+    public get isSaturated(): boolean {
+        return this.size > this.highWaterMark;
+    }
+
+    /**
+     * Push nvim_buf_lines_event or byte level change
+     * @param more true if the lines change was chunked and more parts are following
+     */
+    public push(change: BufferChange, more = false): void {
+        if (change.kind === "lines") {
+            const incomplete = this.incompleteChanges.get(change.bufferId);
+            if (incomplete && incomplete.tick === change.tick) {
+                incomplete.data.push(...change.data);
+                change = incomplete;
+            }
+            if (more) {
+                this.incompleteChanges.set(change.bufferId, { ...change, data: [...change.data] });
+                return;
+            }
+            this.incompleteChanges.delete(change.bufferId);
+        }
+
+        let changes = this.pendingChanges.get(change.bufferId);
+        if (!changes) {
+            changes = [];
+            this.pendingChanges.set(change.bufferId, changes);
+        }
+        // keep tick order. Changes with the same tick are kept in the arrival order
+        let idx = changes.length;
+        while (idx > 0 && changes[idx - 1].tick > change.tick) {
+            idx--;
+        }
+        changes.splice(idx, 0, change);
+        this.processBuffer(change.bufferId);
+    }
+
+    /**
+     * Drop all pending changes for the buffer, e.g. when the buffer is wiped out
+     */
+    public clear(bufferId: number): void {
+        this.pendingChanges.delete(bufferId);
+        this.incompleteChanges.delete(bufferId);
+        this.notifyDrainIfEmpty();
+    }
+
+    /**
+     * Resolves when all pending changes have been applied
+     */
+    public waitForDrain(): Promise<void> {
+        if (!this.size) {
+            return Promise.resolve();
+        }
+        return new Promise(res => this.drainWaiters.push(res));
+    }
+
+    private processBuffer = async (bufferId: number): Promise<void> => {
+        if (this.applyingBuffers.has(bufferId)) {
+            return;
+        }
+        this.applyingBuffers.add(bufferId);
+        try {
+            let changes = this.pendingChanges.get(bufferId);
+            while (changes && changes.length) {
+                this.pendingChanges.delete(bufferId);
+                try {
+                    await this.applier(bufferId, changes);
+                } catch (e) {
+                    // the failed changes are dropped, continue with the next ones so the buffer doesn't get stuck
+                    this.logger.error("buffer", `Unable to apply changes for buf: ${bufferId}`, e && e.message);
+                }
+                changes = this.pendingChanges.get(bufferId);
+            }
+        } finally {
+            this.applyingBuffers.delete(bufferId);
+            this.notifyDrainIfEmpty();
+        }
+    };
+
+    private notifyDrainIfEmpty(): void {
+        if (this.size) {
+            return;
+        }
+        for (const resolve of this.drainWaiters.splice(0)) {
+            resolve();
+        }
+    }
+}
@@ -0,0 +1,69 @@
+import { Disposable, window, commands, QuickPickItem } from "vscode";
+import { NeovimClient } from "neovim";
+
+import { escapeKeys } from "./utils";
+
+export interface CmdlineHistorySearchOptions {
+    /**
+     * History type, ":" for commands, "/" or "?" for searches. Both command and search histories are displayed if not set
+     */
+    type?: string;
+    /**
+     * Put the selected entry into the command line for editing instead of running it
+     */
+    edit?: boolean;
+    /**
+     * Open the command line of the given type again when the picker was cancelled. Used when the picker replaces the command line
+     */
+    restoreOnCancel?: boolean;
+}
+
+interface HistoryQuickPickItem extends QuickPickItem {
+    type: string;
+}
+
+/**
+ * Command line history picker. Reads neovim histories and replays the selected entry as typed
+ */
+export class CmdlineHistoryController implements Disposable {
+    private client: NeovimClient;
+
+    private disposables: Disposable[] = [];
+
+    public constructor(client: NeovimClient) {
+        this.client = client;
+        this.disposables.push(commands.registerCommand("vscode-neovim.searchCmdlineHistory", this.searchHistory));
+    }
+
+    public dispose(): void {
+        for (const d of this.disposables) {
+            d.dispose();
+        }
+    }
+
+    private searchHistory = async (options: CmdlineHistorySearchOptions = {}): Promise<void> => {
+        const types = options.type ? [options.type] : [":", "/"];
+        const items: HistoryQuickPickItem[] = [];
+        for (const type of types) {
+            const entries: string[] = await this.client.callFunction("VSCodeGetHistory", [type]);
+            items.push(
+                ...entries.map(entry => ({
+                    label: entry,
+                    description: type === ":" ? "command" : "search",
+                    type,
+                })),
+            );
+        }
+        const item = await window.showQuickPick(items, {
+            placeHolder: options.edit ? "Select the entry to edit" : "Select the entry to run",
+            matchOnDescription: true,
+        });
+        if (!item) {
+            if (options.restoreOnCancel && options.type) {
+                await this.client.input(options.type);
+            }
+            return;
+        }
+        await this.client.input(item.type + escapeKeys(item.label) + (options.edit ? "" : "<CR>"));
+    };
+}
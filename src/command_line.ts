@@ -2,17 +2,83 @@ import { Disposable, window, QuickPick, QuickPickItem, commands } from "vscode";
 import { NeovimClient } from "neovim";
 
 import { GlyphChars } from "./constants";
+import { CmdlineHistorySearchOptions } from "./cmdline_history";
+import { convertByteNumToCharNum, escapeKeys } from "./utils";
 
 export interface CommandLineCallbacks {
     onAccepted(): void;
-    onChanged(str: string, complete: boolean): void;
+    /**
+     * @param keys Keys to apply the change to the neovim command line
+     */
+    onChanged(keys: string): void;
     onCanceled(): void;
 }
 
+interface CommandLineQuickPickItem extends QuickPickItem {
+    /**
+     * Completion text without the icon
+     */
+    word: string;
+    /**
+     * Already entered line of the ex block (:function, :if, etc...), not a completion
+     */
+    isBlockLine?: boolean;
+}
+
+/**
+ * Saved state of the outer command line when the nested one is displayed, e.g. <C-r>= in :
+ */
+interface CommandLineLevel {
+    mode: string;
+    title: string;
+    value: string;
+    cursor: number;
+    pendingValues: string[];
+}
+
+/**
+ * Completion kind of each item and the current option values (for option completion),
+ * as returned by VSCodeGetCmdlineCompletionInfo
+ */
+interface CompletionInfo {
+    kinds: string[];
+    values: string[];
+}
+
+const COMPLETION_KINDS: { [kind: string]: { icon: string; description: string } } = {
+    command: { icon: "terminal", description: "command" },
+    usercommand: { icon: "symbol-function", description: "user command" },
+    file: { icon: "file", description: "file" },
+    buffer: { icon: "file", description: "buffer" },
+    option: { icon: "settings-gear", description: "option" },
+    help: { icon: "question", description: "help tag" },
+};
+
+function createCompletionItem(word: string, info?: CompletionInfo, index = 0): CommandLineQuickPickItem {
+    const kindName = info && info.kinds[index];
+    const kind = kindName && COMPLETION_KINDS[kindName];
+    if (!info || !kind) {
+        return { label: word, word, alwaysShow: true };
+    }
+    const icon = kindName === "file" && word.endsWith("/") ? "folder" : kind.icon;
+    const value = info.values[index];
+    return {
+        label: `$(${icon}) ${word}`,
+        description: value ? `${kind.description} = ${value}` : kind.description,
+        word,
+        alwaysShow: true,
+    };
+}
+
 export class CommandLineController implements Disposable {
     public isDisplayed = false;
 
-    private input: QuickPick<QuickPickItem>;
+    /**
+     * Current command line level, > 1 for the nested command line
+     */
+    public level = 1;
+
+    private input: QuickPick<CommandLineQuickPickItem>;
 
     private disposables: Disposable[] = [];
 
@@ -20,19 +86,67 @@ export class CommandLineController implements Disposable {
 
     private completionTimer?: NodeJS.Timeout;
 
-    private completionItems: QuickPickItem[] = [];
+    private completionItems: CommandLineQuickPickItem[] = [];
+
+    /**
+     * Lines of the ex block typed so far, displayed above the completion items
+     */
+    private blockItems: CommandLineQuickPickItem[] = [];
+
+    /**
+     * Outer command lines, the innermost is the last
+     */
+    private outerLevels: CommandLineLevel[] = [];
+
+    /**
+     * Delay in ms before completion items are displayed. <Tab> displays them immediately
+     */
+    private completionDelay: number;
+
+    /**
+     * Incremented for every completion update, late completion info responses are dropped
+     */
+    private completionRequestId = 0;
 
     private mode = "";
 
+    /**
+     * Command line content known to neovim (after all sent keys are processed)
+     */
+    private value = "";
+
+    /**
+     * Neovim command line cursor position, in chars
+     */
+    private cursor = 0;
+
+    /**
+     * Values sent to neovim but not yet received back in cmdline_show
+     */
+    private pendingValues: string[] = [];
+
+    /**
+     * <C-r> was sent to neovim, the next key is the register name
+     */
+    private isRegisterPending = false;
+
+    private title = "";
+
+    /**
+     * Displayed after the title, e.g. search match count
+     */
+    private titleInfo = "";
+
     private neovimClient: NeovimClient;
 
     private ignoreHideEvent = false;
 
     private callbacks: CommandLineCallbacks;
 
-    public constructor(client: NeovimClient, callbacks: CommandLineCallbacks) {
+    public constructor(client: NeovimClient, callbacks: CommandLineCallbacks, completionDelay = 1500) {
         this.neovimClient = client;
         this.callbacks = callbacks;
+        this.completionDelay = completionDelay;
         this.input = window.createQuickPick();
         this.input.ignoreFocusOut = true;
         this.disposables.push(this.input.onDidAccept(this.onAccept));
@@ -43,47 +157,143 @@ export class CommandLineController implements Disposable {
         this.disposables.push(commands.registerCommand("vscode-neovim.delete-char-left-cmdline", this.deleteChar));
         this.disposables.push(commands.registerCommand("vscode-neovim.history-up-cmdline", this.onHistoryUp));
         this.disposables.push(commands.registerCommand("vscode-neovim.history-down-cmdline", this.onHistoryDown));
+        this.disposables.push(commands.registerCommand("vscode-neovim.search-history-cmdline", this.onSearchHistory));
+        this.disposables.push(commands.registerCommand("vscode-neovim.insert-register-cmdline", this.onInsertRegister));
         this.disposables.push(
             commands.registerCommand("vscode-neovim.complete-selection-cmdline", this.acceptSelection),
         );
     }
 
-    public show(initialContent = "", mode: string, prompt = ""): void {
+    /**
+     * @param pos Cursor position in bytes
+     */
+    public show(initialContent = "", mode: string, prompt = "", pos = initialContent.length, level = 1): void {
+        if (this.isDisplayed && level > this.level) {
+            this.showNestedLevel(initialContent, mode, prompt, pos, level);
+            return;
+        }
+        while (this.isDisplayed && level < this.level && this.outerLevels.length) {
+            this.restoreOuterLevel();
+        }
         if (!this.isDisplayed) {
             this.input.value = "";
             this.isDisplayed = true;
             this.input.value = "";
             this.mode = mode;
-            this.input.title = prompt || this.getTitle(mode);
+            this.level = level;
+            this.value = initialContent;
+            this.cursor = convertByteNumToCharNum(initialContent, pos);
+            this.pendingValues = [];
+            this.title = prompt || this.getTitle(mode);
+            this.input.title = this.getTitleWithInfo();
             this.input.show();
             // display content after cmdline appears - otherwise it will be preselected that is not good when calling from visual mode
             if (initialContent) {
                 this.input.value = initialContent;
             }
-            // Display completions only after 1.5secons, so it won't bother for simple things like ":w" or ":noh"
+            // Display completions only after the delay, so it won't bother for simple things like ":w" or ":noh"
             this.completionAllowed = false;
             this.completionItems = [];
-            this.input.items = [];
-            this.completionTimer = setTimeout(this.processCompletionTimer, 1500);
+            this.updateItems();
+            this.completionTimer = setTimeout(this.processCompletionTimer, this.completionDelay);
             // breaks mappings with command line mode, e.g. :call stuff()
             // this.onChange(this.input.value);
         } else {
             const newTitle = prompt || this.getTitle(mode);
-            if (newTitle !== this.input.title) {
-                this.input.title = newTitle;
-            }
-            // we want take content for the search modes, because <c-l>/<c-w><c-r> keybindings
-            if (this.mode === "/" || this.mode === "?") {
-                this.input.value = initialContent;
+            if (newTitle !== this.title) {
+                this.title = newTitle;
+                this.input.title = this.getTitleWithInfo();
             }
+            // take the content changed by neovim itself, e.g. by <c-l>/<c-r><c-w> keybindings
+            this.syncWithNeovim(initialContent, pos);
         }
     }
 
-    public setCompletionItems(items: string[]): void {
-        this.completionItems = items.map(i => ({ label: i, alwaysShow: true }));
-        if (this.completionAllowed) {
-            this.input.items = this.completionItems;
+    /**
+     * Neovim moved the command line cursor
+     * @param pos Cursor position in bytes
+     */
+    public setCursorPos(pos: number): void {
+        if (!this.isDisplayed || this.pendingValues.length) {
+            return;
+        }
+        this.cursor = convertByteNumToCharNum(this.value, pos);
+    }
+
+    /**
+     * Nested command line was hidden, display the outer one
+     * @returns false if there is no nested command line
+     */
+    public hideNestedLevel(): boolean {
+        if (!this.outerLevels.length) {
+            return false;
         }
+        this.restoreOuterLevel();
+        return true;
+    }
+
+    /**
+     * Display already entered lines of the ex block
+     */
+    public setBlockLines(lines: string[]): void {
+        if (lines.length === this.blockItems.length && lines.every((l, idx) => l === this.blockItems[idx].label)) {
+            return;
+        }
+        this.blockItems = lines.map((line, idx) => ({
+            label: line,
+            description: `${idx + 1}`,
+            word: "",
+            isBlockLine: true,
+            alwaysShow: true,
+        }));
+        this.updateItems();
+    }
+
+    public setTitleInfo(info: string): void {
+        if (info === this.titleInfo) {
+            return;
+        }
+        this.titleInfo = info;
+        if (this.isDisplayed) {
+            this.input.title = this.getTitleWithInfo();
+        }
+    }
+
+    /**
+     * Display completion items. Items are annotated with their kind (and option values) once neovim returns them
+     */
+    public async setCompletionItems(items: string[]): Promise<void> {
+        const requestId = ++this.completionRequestId;
+        this.updateCompletionItems(items.map(i => createCompletionItem(i)));
+        if (!items.length) {
+            return;
+        }
+        let info: CompletionInfo | undefined;
+        try {
+            info = await this.neovimClient.callFunction("VSCodeGetCmdlineCompletionInfo", [items]);
+        } catch {
+            info = undefined;
+        }
+        if (!info || requestId !== this.completionRequestId || !this.isDisplayed) {
+            return;
+        }
+        const activeItem = this.input.activeItems[0];
+        const activeIndex = activeItem ? this.completionItems.indexOf(activeItem) : -1;
+        this.updateCompletionItems(items.map((i, idx) => createCompletionItem(i, info, idx)));
+        if (activeIndex !== -1) {
+            this.selectCompletionItem(activeIndex);
+        }
+    }
+
+    /**
+     * Highlight completion item selected in neovim. -1 means no selection
+     */
+    public selectCompletionItem(index: number): void {
+        if (!this.completionAllowed) {
+            return;
+        }
+        const item = this.completionItems[index];
+        this.input.activeItems = item ? [item] : [];
     }
 
     public cancel(ignoreHideEvent = false): void {
@@ -110,18 +320,137 @@ export class CommandLineController implements Disposable {
             return;
         }
         const mode = this.mode;
-        if (mode === ":" && (e.charAt(0) === "?" || e.charAt(0) === "/") && this.input.items.length) {
-            this.input.items = [];
+        if (mode === ":" && (e.charAt(0) === "?" || e.charAt(0) === "/") && this.completionItems.length) {
             this.completionItems = [];
+            this.updateItems();
+        }
+        if (e === this.value) {
+            return;
         }
-        const useCompletion = mode === ":" && e.charAt(0) !== "?" && e.charAt(0) !== "/";
-        this.callbacks.onChanged(e, useCompletion);
+        if (this.isRegisterPending) {
+            // only the register name is typed, neovim sends back the content with the inserted register
+            this.isRegisterPending = false;
+            const [start, , inserted] = this.getChange(this.value, e);
+            this.callbacks.onChanged(escapeKeys(inserted));
+            this.cursor = start;
+            return;
+        }
+        this.applyChange(e, this.getChange(this.value, e));
     };
 
+    /**
+     * Send the change to neovim
+     * @param change [change start, deleted length, inserted text]
+     */
+    private applyChange(newValue: string, change: [number, number, string]): void {
+        const useCompletion = this.mode === ":" && newValue.charAt(0) !== "?" && newValue.charAt(0) !== "/";
+        this.callbacks.onChanged(this.getEditKeys(this.value, change));
+        this.value = newValue;
+        this.pendingValues.push(newValue);
+        if (useCompletion) {
+            this.requestCompletionItems(newValue.slice(0, this.cursor));
+        }
+    }
+
+    /**
+     * Replace the text before the cursor. Used by keybindings, the quick pick doesn't expose its own cursor
+     */
+    private replaceBeforeCursor(deletedLength: number, inserted: string): void {
+        const start = this.cursor - deletedLength;
+        const newValue = this.value.slice(0, start) + inserted + this.value.slice(this.cursor);
+        this.input.value = newValue;
+        this.applyChange(newValue, [start, deletedLength, inserted]);
+    }
+
+    /**
+     * Completion items for the text before the cursor. Not requested by <Tab> since it completes
+     * the unique match in place while the user is still typing
+     */
+    private async requestCompletionItems(text: string): Promise<void> {
+        const requestId = ++this.completionRequestId;
+        let items: string[];
+        try {
+            items = await this.neovimClient.callFunction("getcompletion", [text, "cmdline"]);
+        } catch {
+            items = [];
+        }
+        if (requestId !== this.completionRequestId || !this.isDisplayed) {
+            return;
+        }
+        await this.setCompletionItems(items);
+    }
+
+    /**
+     * Keys to turn the neovim command line into the new value. The cursor is moved to the changed part,
+     * then the removed text is deleted and the new text is inserted
+     */
+    private getEditKeys(oldValue: string, [start, deletedLength, inserted]: [number, number, string]): string {
+        const changeEnd = start + deletedLength;
+        let keys = "";
+        if (changeEnd !== this.cursor) {
+            if (changeEnd === oldValue.length) {
+                keys += "<End>";
+            } else if (changeEnd === 0) {
+                keys += "<Home>";
+            } else {
+                keys += (changeEnd > this.cursor ? "<Right>" : "<Left>").repeat(Math.abs(changeEnd - this.cursor));
+            }
+        }
+        keys += "<BS>".repeat(deletedLength) + escapeKeys(inserted);
+        this.cursor = start + inserted.length;
+        return keys;
+    }
+
+    /**
+     * @returns [change start, deleted length, inserted text]
+     */
+    private getChange(oldValue: string, newValue: string): [number, number, string] {
+        const maxLength = Math.min(oldValue.length, newValue.length);
+        let start = 0;
+        while (start < maxLength && oldValue.charAt(start) === newValue.charAt(start)) {
+            start++;
+        }
+        let end = 0;
+        while (
+            end < maxLength - start &&
+            oldValue.charAt(oldValue.length - 1 - end) === newValue.charAt(newValue.length - 1 - end)
+        ) {
+            end++;
+        }
+        return [start, oldValue.length - end - start, newValue.slice(start, newValue.length - end)];
+    }
+
+    /**
+     * Take the command line content from neovim. Content for the values we have sent is skipped since
+     * the input already has it (and may have even newer text typed)
+     */
+    private syncWithNeovim(content: string, pos: number): void {
+        const pendingIdx = this.pendingValues.indexOf(content);
+        if (pendingIdx !== -1) {
+            this.pendingValues.splice(0, pendingIdx + 1);
+            if (this.pendingValues.length) {
+                return;
+            }
+        } else {
+            this.pendingValues = [];
+        }
+        this.cursor = convertByteNumToCharNum(content, pos);
+        if (content !== this.value) {
+            this.value = content;
+            this.input.value = content;
+        }
+    }
+
     private onHide = (): void => {
         if (!this.isDisplayed) {
             return;
         }
+        if (this.outerLevels.length && !this.ignoreHideEvent) {
+            // cancel only the nested command line, neovim returns to the outer one
+            this.input.show();
+            this.callbacks.onCanceled();
+            return;
+        }
         this.clean();
         if (this.ignoreHideEvent) {
             this.ignoreHideEvent = false;
@@ -130,14 +459,64 @@ export class CommandLineController implements Disposable {
         this.callbacks.onCanceled();
     };
 
+    private updateCompletionItems(items: CommandLineQuickPickItem[]): void {
+        this.completionItems = items;
+        if (this.completionAllowed) {
+            this.updateItems();
+        }
+    }
+
+    private updateItems(): void {
+        this.input.items = this.completionAllowed ? [...this.blockItems, ...this.completionItems] : this.blockItems;
+    }
+
     private processCompletionTimer = (): void => {
         this.completionAllowed = true;
         if (this.isDisplayed && this.completionItems.length) {
-            this.input.items = this.completionItems;
+            this.updateItems();
         }
         this.completionTimer = undefined;
     };
 
+    private showNestedLevel(content: string, mode: string, prompt: string, pos: number, level: number): void {
+        this.outerLevels.push({
+            mode: this.mode,
+            title: this.title,
+            value: this.value,
+            cursor: this.cursor,
+            pendingValues: this.pendingValues,
+        });
+        const outerTitle = `${this.title} ${this.value}`;
+        this.level = level;
+        this.mode = mode;
+        this.title = `${outerTitle} ${GlyphChars.NESTED_COMMAND_LINE} ${prompt || this.getTitle(mode)}`;
+        this.titleInfo = "";
+        this.input.title = this.getTitleWithInfo();
+        this.setValue(content, convertByteNumToCharNum(content, pos));
+        this.completionItems = [];
+        this.updateItems();
+    }
+
+    private restoreOuterLevel(): void {
+        const outer = this.outerLevels.pop();
+        if (!outer) {
+            return;
+        }
+        this.level--;
+        this.mode = outer.mode;
+        this.title = outer.title;
+        this.titleInfo = "";
+        this.input.title = this.getTitleWithInfo();
+        this.setValue(outer.value, outer.cursor);
+        this.pendingValues = outer.pendingValues;
+        this.completionItems = [];
+        this.updateItems();
+    }
+
+    private getTitleWithInfo(): string {
+        return this.titleInfo ? `${this.title} ${this.titleInfo}` : this.title;
+    }
+
     private getTitle(modeOrPrompt: string): string {
         switch (modeOrPrompt) {
             case "/":
@@ -146,6 +525,8 @@ export class CommandLineController implements Disposable {
                 return `${GlyphChars.SEARCH_BACKWARD} Backward Search:`;
             case ":":
                 return `${GlyphChars.COMMAND} VIM Command Line:`;
+            case "=":
+                return "= Expression:";
             default:
                 return modeOrPrompt;
         }
@@ -155,6 +536,10 @@ export class CommandLineController implements Disposable {
         if (!this.isDisplayed) {
             return;
         }
+        if (this.isRegisterPending) {
+            this.sendRegisterKey("<C-u>");
+            return;
+        }
         this.input.value = "";
         this.onChange("");
     };
@@ -163,65 +548,125 @@ export class CommandLineController implements Disposable {
         if (!this.isDisplayed) {
             return;
         }
-        this.input.value = this.input.value.slice(0, -1);
-        this.onChange(this.input.value);
+        if (this.isRegisterPending) {
+            this.sendRegisterKey("<C-h>");
+            return;
+        }
+        if (this.cursor > 0) {
+            this.replaceBeforeCursor(1, "");
+        }
     };
 
     private deleteWord = (): void => {
         if (!this.isDisplayed) {
             return;
         }
-
-        this.input.value = this.input.value
-            .trimRight()
-            .split(" ")
-            .slice(0, -1)
-            .join(" ");
-        this.onChange(this.input.value);
+        if (this.isRegisterPending) {
+            this.sendRegisterKey("<C-w>");
+            return;
+        }
+        const before = this.value.slice(0, this.cursor).trimRight();
+        const wordStart = Math.max(before.lastIndexOf(" "), 0);
+        this.replaceBeforeCursor(this.cursor - wordStart, "");
     };
 
+    /**
+     * <C-r><C-w>, <C-r><C-h>, etc...
+     */
+    private sendRegisterKey(key: string): void {
+        this.isRegisterPending = false;
+        this.neovimClient.input(key);
+    }
+
     private clean(): void {
         if (this.completionTimer) {
             clearTimeout(this.completionTimer);
+            this.completionTimer = undefined;
         }
+        this.completionRequestId++;
         this.isDisplayed = false;
         this.input.value = "";
         this.input.title = "";
+        this.title = "";
+        this.titleInfo = "";
         this.mode = "";
+        this.value = "";
+        this.cursor = 0;
+        this.pendingValues = [];
+        this.isRegisterPending = false;
         this.completionAllowed = false;
+        this.level = 1;
+        this.outerLevels = [];
+        this.blockItems = [];
         this.input.items = [];
         this.completionItems = [];
     }
 
+    /**
+     * <Tab> displays the completion items immediately if they're still delayed, otherwise accepts the selected item
+     */
     private acceptSelection = (): void => {
         if (!this.isDisplayed) {
             return;
         }
+        if (!this.completionAllowed) {
+            if (this.completionTimer) {
+                clearTimeout(this.completionTimer);
+            }
+            this.processCompletionTimer();
+            return;
+        }
         const sel = this.input.activeItems[0];
-        if (!sel) {
+        if (!sel || sel.isBlockLine) {
             return;
         }
-        this.input.value = this.input.value
-            .split(" ")
-            .slice(0, -1)
-            .concat(sel.label)
-            .join(" ");
-        this.onChange(this.input.value);
+        // replace the word before the cursor
+        const wordStart = this.value.slice(0, this.cursor).lastIndexOf(" ") + 1;
+        this.replaceBeforeCursor(this.cursor - wordStart, sel.word);
     };
 
+    private setValue(value: string, cursor = value.length): void {
+        this.value = value;
+        this.cursor = cursor;
+        this.pendingValues = [];
+        this.input.value = value;
+    }
+
     private onHistoryUp = async (): Promise<void> => {
         await this.neovimClient.input("<Up>");
         const res = await this.neovimClient.callFunction("getcmdline", []);
         if (res) {
-            this.input.value = res;
+            this.setValue(res);
+        }
+    };
+
+    /**
+     * <C-r> is passed to neovim, the next typed key is the register name (or <C-w>, <C-a>, etc...)
+     */
+    private onInsertRegister = async (): Promise<void> => {
+        if (!this.isDisplayed) {
+            return;
+        }
+        this.isRegisterPending = true;
+        await this.neovimClient.input("<C-r>");
+    };
+
+    /**
+     * The history picker replaces the command line and reopens it with the selected entry
+     */
+    private onSearchHistory = async (): Promise<void> => {
+        if (!this.isDisplayed) {
+            return;
         }
+        const options: CmdlineHistorySearchOptions = { type: this.mode, edit: true, restoreOnCancel: true };
+        await commands.executeCommand("vscode-neovim.searchCmdlineHistory", options);
     };
 
     private onHistoryDown = async (): Promise<void> => {
         await this.neovimClient.input("<Down>");
         const res = await this.neovimClient.callFunction("getcmdline", []);
         if (res) {
-            this.input.value = res;
+            this.setValue(res);
         }
     };
 }
@@ -2,4 +2,5 @@ export const GlyphChars = {
     COMMAND: "\u2318",
     SEARCH_FORWARD: "\u27f3",
     SEARCH_BACKWARD: "\u27f2",
+    NESTED_COMMAND_LINE: "\u203a",
 };
@@ -1,5 +1,8 @@
 import { spawn, ChildProcess } from "child_process";
 import path from "path";
+import os from "os";
+import net from "net";
+import crypto from "crypto";
 
 import vscode from "vscode";
 import { attach, Buffer as NeovimBuffer, NeovimClient, Window } from "neovim";
@@ -9,9 +12,21 @@ import diff from "fast-diff";
 
 import * as Utils from "./utils";
 import { CommandLineController } from "./command_line";
-import { StatusLineController } from "./status_line";
+import { CmdlineHistoryController } from "./cmdline_history";
+import { PopupMenuController, PopupMenuItem } from "./popup_menu";
+import { TabLineController, NeovimTabpage } from "./tab_line";
+import { MessagesController, MessagesConfiguration, NeovimMessage } from "./messages";
+import { ModeIndicatorController, ModeIndicatorConfiguration, getIndicatorMode } from "./mode_indicator";
+import { PromptsController, hasInputListChoices } from "./prompts";
+import { SubstitutePreviewController } from "./substitute_preview";
+import { SearchPreviewController } from "./search_preview";
+import { StatusLineController, StatusLineSegment } from "./status_line";
 import { HighlightProvider, HighlightConfiguration } from "./highlight_provider";
 import { CommandsController } from "./commands_controller";
+import { HealthCheckController } from "./health_check";
+import { Logger } from "./logger";
+import { TraceRecorder, TraceSelection } from "./trace_recorder";
+import { BufferEditQueue, BufferChange } from "./buffer_edit_queue";
 
 interface CursorMode {
     /**
@@ -86,7 +101,22 @@ export class NVIMPluginController implements vscode.Disposable {
      */
     private leaveMultipleCursorsForVisualMode = false;
 
-    private nvimProc: ChildProcess;
+    /**
+     * Neovim process. Not set when attached to already running neovim
+     */
+    private nvimProc?: ChildProcess;
+    /**
+     * Connection to already running neovim
+     */
+    private nvimSocket?: net.Socket;
+    /**
+     * RPC channel of this client. Buffers created by the extension are marked with it
+     */
+    private channelId = 0;
+    /**
+     * Path to support script. Sourced in init() when attached to already running neovim
+     */
+    private neovimSupportScriptPath: string;
     private client: NeovimClient;
 
     private disposables: vscode.Disposable[] = [];
@@ -121,24 +151,57 @@ export class NVIMPluginController implements vscode.Disposable {
      */
     private documentLastChangedVersion: Map<string, number> = new Map();
     /**
-     * Tracks changes in insert mode. We can send them to neovim immediately but this will break undo stack
+     * Pending neovim buffer edits produced by document changes. In insert mode they're accumulated and coalesced until leaving it.
+     * We can send them to neovim immediately but this will break undo stack
+     */
+    private documentPendingEdits: Map<string, Utils.BufferLineEdit[]> = new Map();
+    /**
+     * Documents with incomplete change log. These will be synced by diffing the whole document text
+     */
+    private documentsRequireFullSync: Set<string> = new Set();
+    /**
+     * Last seen document version. Used to detect missed document changes
+     */
+    private documentLastSeenVersion: Map<string, number> = new Map();
+    /**
+     * Document text as it was uploaded to neovim last time. Used for full document sync
      */
-    private documentChangesInInsertMode: Map<string, boolean> = new Map();
     private documentText: Map<string, string> = new Map();
+    /**
+     * Last [buffer changedtick, document version] pair checked to be in sync. Used to skip checking unchanged documents
+     */
+    private documentLastSyncedState: Map<string, [number, number]> = new Map();
+    /**
+     * Command line window documents (q:, q/) and their history type. The documents are temporary files
+     */
+    private cmdwinDocuments: Map<string, string> = new Map();
+    /**
+     * Documents with currently displayed desync warning
+     */
+    private documentsWithDesyncWarning: Set<string> = new Set();
+    /**
+     * Interval to check document & buffer sync. 0 - check only on mode change
+     */
+    private bufferSyncCheckInterval: number;
+    private bufferSyncCheckTimer?: NodeJS.Timeout;
+    /**
+     * Delay in ms before the command line completion items are displayed
+     */
+    private cmdlineCompletionDelay: number;
+    /**
+     * Buffer sync backend. "bytes" uses on_bytes events & nvim_buf_set_text and is
+     * replaced by "lines" in init() if the connected neovim doesn't support them
+     */
+    private bufferSyncBackend: "lines" | "bytes";
     /**
      * Vscode doesn't allow to apply multiple edits to the save document without awaiting previous reuslt.
-     * So we'll accumulate neovim buffer updates here, then apply
+     * So neovim buffer updates are accumulated and applied in order by the queue
      */
-    private pendingBufChangesQueue: Array<{
-        buffer: NeovimBuffer;
-        firstLine: number;
-        lastLine: number;
-        data: string[];
-        tick: number;
-    }> = [];
-
-    private bufQueuePromise?: Promise<void>;
-    private resolveBufQueuePromise?: () => void;
+    private bufferEditQueue: BufferEditQueue;
+    /**
+     * Keys typed while the buffer edit queue is saturated. Sent to neovim after the queue is drained
+     */
+    private pendingTypedKeys = "";
 
     /**
      * Neovim API states that multiple redraw batches could be sent following flush() after last batch
@@ -147,14 +210,59 @@ export class NVIMPluginController implements vscode.Disposable {
     private currentRedrawBatch: [string, ...unknown[]][] = [];
 
     private commandsController: CommandsController;
+    private healthCheck: HealthCheckController;
+    private logger: Logger;
+    private traceRecorder = new TraceRecorder();
+    private traceStatusMessage?: vscode.Disposable;
     /**
      * Simple command line UI
      */
     private commandLine?: CommandLineController;
+    /**
+     * Command line history picker
+     */
+    private cmdlineHistory: CmdlineHistoryController;
+    /**
+     * Insert mode popup menu UI
+     */
+    private popupMenu: PopupMenuController;
+    /**
+     * Set when the current popup menu is shown for the command line completion (grid -1)
+     */
+    private isCmdlinePopupMenu = false;
+    /**
+     * Message log & long output UI
+     */
+    private messages: MessagesController;
+    /**
+     * Confirm, return, input() & inputlist() prompts UI
+     */
+    private prompts: PromptsController;
+    /**
+     * inccommand preview for :s
+     */
+    private substitutePreview: SubstitutePreviewController;
+    /**
+     * incsearch preview for / and ?
+     */
+    private searchPreview: SearchPreviewController;
+    /**
+     * Tab pages (editor groups) management
+     */
+    private tabLine: TabLineController;
     /**
      * Status var UI
      */
     private statusLine: StatusLineController;
+    /**
+     * Mode indicator in the status bar
+     */
+    private modeIndicator: ModeIndicatorController;
+    /**
+     * Render neovim statusline in the status bar
+     */
+    private renderStatusLine: boolean;
+    private statusLineUpdateTimer?: NodeJS.Timeout;
     /**
      * Vim modes
      */
@@ -163,6 +271,18 @@ export class NVIMPluginController implements vscode.Disposable {
 
     private nvimInitPromise: Promise<void> = Promise.resolve();
     private isInit = false;
+    /**
+     * Set when neovim process has exited or the connection to neovim was closed
+     */
+    private isNeovimExited = false;
+    /**
+     * Resolved when neovim has exited. Requests to the exited neovim never settle, so init() bails out on it
+     */
+    private neovimExitPromise: Promise<void>;
+    private resolveNeovimExitPromise: () => void = () => {
+        /* ignore */
+    };
+    private isDisposed = false;
 
     /**
      * Special flag to ignore mouse selection and don't send cursor event to neovim. Used for vscode-range-command RPC commands
@@ -192,6 +312,11 @@ export class NVIMPluginController implements vscode.Disposable {
 
     private cmdlineTimer?: NodeJS.Timeout;
 
+    /**
+     * Lines of the ex block (:function, :if, etc...) entered in the command line so far
+     */
+    private cmdlineBlockLines: string[] = [];
+
     private editorChangedPromise?: Promise<void>;
 
     private skipJumpsForUris: Map<string, boolean> = new Map();
@@ -217,13 +342,37 @@ export class NVIMPluginController implements vscode.Disposable {
         mouseSelection: boolean,
         useWsl: boolean,
         customInit = "",
+        bufferSyncCheckInterval = 5000,
+        bufferSyncBackend: "lines" | "bytes" = "lines",
+        neovimServerAddress = "",
+        logger = new Logger("none"),
+        messagesConfiguration: MessagesConfiguration = { errorNotificationKinds: [], warningNotificationKinds: [] },
+        cmdlineCompletionDelay = 1500,
+        modeIndicatorConfiguration: ModeIndicatorConfiguration = { enabled: false, modes: {}, tintStatusBar: false },
+        renderStatusLine = false,
     ) {
-        if (!neovimPath) {
+        if (!neovimPath && !neovimServerAddress) {
             throw new Error("Neovim path is not defined");
         }
+        this.logger = logger;
         this.mouseSelectionEnabled = mouseSelection;
+        this.bufferSyncCheckInterval = bufferSyncCheckInterval;
+        this.cmdlineCompletionDelay = cmdlineCompletionDelay;
+        this.renderStatusLine = renderStatusLine;
+        this.bufferSyncBackend = bufferSyncBackend;
+        this.neovimExitPromise = new Promise(res => {
+            this.resolveNeovimExitPromise = res;
+        });
+        this.bufferEditQueue = new BufferEditQueue(this.applyNeovimBufferChanges, undefined, this.logger);
         this.highlightProvider = new HighlightProvider(highlightsConfiguration);
         this.disposables.push(vscode.commands.registerCommand("vscode-neovim.escape", this.onEscapeKeyCommand));
+        this.disposables.push(vscode.commands.registerCommand("vscode-neovim.dumpState", this.dumpState));
+        this.disposables.push(
+            vscode.commands.registerCommand("vscode-neovim.startTraceRecording", this.startTraceRecording),
+        );
+        this.disposables.push(
+            vscode.commands.registerCommand("vscode-neovim.stopTraceRecording", this.stopTraceRecording),
+        );
         this.disposables.push(vscode.workspace.onDidChangeTextDocument(this.onChangeTextDocument));
         this.disposables.push(vscode.window.onDidChangeVisibleTextEditors(this.onChangedEdtiors));
         this.disposables.push(vscode.window.onDidChangeActiveTextEditor(this.onChangedActiveEditor));
@@ -258,6 +407,7 @@ export class NVIMPluginController implements vscode.Disposable {
 
         const neovimSupportScriptPath = path.join(extensionPath, "vim", "vscode-neovim.vim");
         const neovimOptionScriptPath = path.join(extensionPath, "vim", "vscode-options.vim");
+        this.neovimSupportScriptPath = neovimSupportScriptPath;
 
         const args = [
             "-N",
@@ -269,6 +419,10 @@ export class NVIMPluginController implements vscode.Disposable {
             "--cmd",
             useWsl ? `source $(wslpath '${neovimSupportScriptPath}')` : `source ${neovimSupportScriptPath}`,
         ];
+        if (renderStatusLine) {
+            // keep user statusline, vscode-options.vim clears it otherwise
+            args.push("--cmd", "let g:vscode_render_statusline = 1");
+        }
         if (useWsl) {
             args.unshift(neovimPath);
         }
@@ -283,18 +437,60 @@ export class NVIMPluginController implements vscode.Disposable {
         if (customInit) {
             args.push("-u", customInit);
         }
-        this.nvimProc = spawn(useWsl ? "C:\\Windows\\system32\\wsl.exe" : neovimPath, args, {});
-        this.client = attach({ proc: this.nvimProc });
+        if (neovimServerAddress) {
+            const socket = net.createConnection(Utils.getNeovimServerConnectOptions(neovimServerAddress));
+            this.nvimSocket = socket;
+            // close event follows the error one, the first call wins
+            socket.on("error", err =>
+                this.onNeovimExit(`Unable to connect to neovim at ${neovimServerAddress}: ${err.message}`),
+            );
+            socket.on("close", () => this.onNeovimExit());
+            this.client = attach({ reader: socket, writer: socket });
+        } else {
+            this.nvimProc = spawn(useWsl ? "C:\\Windows\\system32\\wsl.exe" : neovimPath, args, {});
+            this.nvimProc.on("exit", () => this.onNeovimExit());
+            // e.g. wrong neovim path. Exit event may not be emitted in this case
+            this.nvimProc.on("error", err => this.onNeovimExit(`Unable to start neovim: ${err.message}`));
+            this.client = attach({ proc: this.nvimProc });
+        }
         this.statusLine = new StatusLineController();
+        this.modeIndicator = new ModeIndicatorController(modeIndicatorConfiguration);
         this.commandsController = new CommandsController(this.client);
+        this.cmdlineHistory = new CmdlineHistoryController(this.client);
+        this.popupMenu = new PopupMenuController(this.client, this.flushDocumentChanges);
+        this.tabLine = new TabLineController(this.client, this.logger);
+        this.messages = new MessagesController(messagesConfiguration);
+        this.prompts = new PromptsController(this.client);
+        this.substitutePreview = new SubstitutePreviewController(this.client, this.highlightProvider);
+        this.searchPreview = new SearchPreviewController(this.client, this.highlightProvider);
+        this.healthCheck = new HealthCheckController(this.client, {
+            neovimPath,
+            extensionPath,
+            useWsl,
+            customInit,
+            neovimServerAddress,
+        });
         this.disposables.push(this.statusLine);
+        this.disposables.push(this.modeIndicator);
         this.disposables.push(this.commandsController);
+        this.disposables.push(this.cmdlineHistory);
+        this.disposables.push(this.popupMenu);
+        this.disposables.push(this.tabLine);
+        this.disposables.push(this.messages);
+        this.disposables.push(this.prompts);
+        this.disposables.push(this.substitutePreview);
+        this.disposables.push(this.searchPreview);
+        this.disposables.push(this.healthCheck);
 
         this.client.on("notification", this.onNeovimNotification);
         this.client.on("request", this.handleCustomRequest);
     }
 
     public async init(): Promise<void> {
+        await Promise.race([this.initNeovim(), this.neovimExitPromise]);
+    }
+
+    private async initNeovim(): Promise<void> {
         let resolveInitPromise: () => void = () => {
             /* ignore */
         };
@@ -302,8 +498,15 @@ export class NVIMPluginController implements vscode.Disposable {
             resolveInitPromise = res;
         });
         await this.client.setClientInfo("vscode-neovim", { major: 0, minor: 1, patch: 0 }, "embedder", {}, {});
-        const channel = await this.client.channelId;
-        await this.client.setVar("vscode_channel", channel);
+        this.channelId = await this.client.channelId;
+        await this.client.setVar("vscode_channel", this.channelId);
+        if (this.nvimSocket) {
+            await this.initServerSession();
+        }
+        await this.healthCheck.runStartupChecks();
+        if (this.bufferSyncBackend === "bytes" && !(await this.isByteLevelSyncSupported())) {
+            this.bufferSyncBackend = "lines";
+        }
 
         await this.client.uiAttach(NVIM_WIN_WIDTH, NVIM_WIN_HEIGHT, {
             rgb: true,
@@ -342,6 +545,7 @@ export class NVIMPluginController implements vscode.Disposable {
         const requests: [string, unknown[]][] = [
             ["nvim_set_var", ["vscode_primary_win", firstWin.id]],
             ["nvim_set_var", ["vscode_noeditor_buffer", this.noEditorBuffer.id]],
+            ["nvim_buf_set_var", [this.noEditorBuffer.id, "vscode_channel", this.channelId]],
             ["nvim_buf_set_option", [this.noEditorBuffer.id, "modified", true]],
             ["nvim_win_set_buf", [0, this.noEditorBuffer.id]],
             ["nvim_win_set_option", [firstWin.id, "number", true]],
@@ -362,7 +566,7 @@ export class NVIMPluginController implements vscode.Disposable {
                 ],
             ]);
         }
-        await this.client.callAtomic(requests);
+        await this.callAtomic(requests);
 
         const wins = await this.client.windows;
         const winOptionsRequests: [string, unknown[]][] = [];
@@ -373,8 +577,11 @@ export class NVIMPluginController implements vscode.Disposable {
                 ["nvim_win_set_option", [firstWin.id, "numberwidth", NUMBER_COLUMN_WIDTH]],
                 ["nvim_win_set_option", [firstWin.id, "conceallevel", 0]],
             );
+            if (this.nvimSocket) {
+                winOptionsRequests.push(["nvim_call_function", ["VSCodeSetSessionWindowOptions", [w.id]]]);
+            }
         }
-        await this.client.callAtomic(winOptionsRequests);
+        await this.callAtomic(winOptionsRequests);
 
         let currColumn = 1;
         for (const w of wins) {
@@ -382,7 +589,9 @@ export class NVIMPluginController implements vscode.Disposable {
             currColumn++;
         }
 
-        this.watchAndApplyNeovimEdits();
+        if (this.bufferSyncCheckInterval > 0) {
+            this.bufferSyncCheckTimer = setInterval(this.checkVisibleBuffersSync, this.bufferSyncCheckInterval);
+        }
         this.isInit = true;
         await vscode.commands.executeCommand("setContext", "neovim.init", true);
 
@@ -395,9 +604,13 @@ export class NVIMPluginController implements vscode.Disposable {
     }
 
     public dispose(): void {
+        this.isDisposed = true;
         for (const d of this.disposables) {
             d.dispose();
         }
+        if (this.bufferSyncCheckTimer) {
+            clearInterval(this.bufferSyncCheckTimer);
+        }
         if (this.commandLine) {
             this.commandLine.dispose();
         }
@@ -405,7 +618,161 @@ export class NVIMPluginController implements vscode.Disposable {
             this.typeHandlerDisplose.dispose();
             this.typeHandlerDisplose = undefined;
         }
-        this.client.quit();
+        if (this.isNeovimExited) {
+            return;
+        }
+        if (this.nvimSocket) {
+            // don't quit shared neovim, only cleanup after ourselves. The UI is detached when the connection is closed
+            const socket = this.nvimSocket;
+            this.client
+                .callFunction("VSCodeCleanupSession", [this.channelId])
+                .catch(() => {
+                    /* ignore */
+                })
+                .then(() => socket.end());
+        } else {
+            this.client.quit();
+        }
+    }
+
+    /**
+     * Write controller state to the output channel
+     */
+    private dumpState = (): void => {
+        const state = {
+            uriToBuffer: [...this.uriToBuffer].map(([uri, buf]) => [uri, buf.id]),
+            bufferIdToUri: [...this.bufferIdToUri],
+            managedBufferIds: [...this.managedBufferIds],
+            grids: [...this.grids],
+            editorColumnIdToWinId: [...this.editorColumnIdToWinId],
+            tabpages: this.tabLine.tabpages.map(({ tab, name }) => ({ id: tab.data, name })),
+            skipBufferTickUpdate: [...this.skipBufferTickUpdate],
+            documentLastChangedVersion: [...this.documentLastChangedVersion],
+            documentLastSeenVersion: [...this.documentLastSeenVersion],
+            documentPendingEdits: [...this.documentPendingEdits],
+            documentsRequireFullSync: [...this.documentsRequireFullSync],
+            pendingBuffers: [...this.pendingBuffers],
+            bufferEditQueueSize: this.bufferEditQueue.size,
+            mode: this.currentModeName,
+            isInsertMode: this.isInsertMode,
+            isRecording: this.isRecording,
+        };
+        this.logger.dump("state", JSON.stringify(state, undefined, 4));
+    };
+
+    private startTraceRecording = (): void => {
+        if (this.traceRecorder.isRecording) {
+            return;
+        }
+        this.traceRecorder.start();
+        for (const editor of vscode.window.visibleTextEditors) {
+            this.recordOpenEditor(editor);
+        }
+        if (vscode.window.activeTextEditor) {
+            this.traceRecorder.record({
+                type: "active-editor",
+                uri: vscode.window.activeTextEditor.document.uri.toString(),
+            });
+        }
+        this.traceStatusMessage = vscode.window.setStatusBarMessage("$(record) Recording neovim trace");
+    };
+
+    private stopTraceRecording = async (): Promise<void> => {
+        if (!this.traceRecorder.isRecording) {
+            return;
+        }
+        if (this.traceStatusMessage) {
+            this.traceStatusMessage.dispose();
+            this.traceStatusMessage = undefined;
+        }
+        const final = this.traceRecorder.documentUris.map(uri => {
+            const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri);
+            return { uri, content: document ? document.getText() : "" };
+        });
+        const trace = this.traceRecorder.stop(final);
+        const uri = await vscode.window.showSaveDialog({ filters: { Trace: ["json"] } });
+        if (!uri) {
+            return;
+        }
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(trace, undefined, 2), "utf8"));
+    };
+
+    private recordOpenEditor(editor: vscode.TextEditor): void {
+        this.traceRecorder.record({
+            type: "open-editor",
+            document: {
+                uri: editor.document.uri.toString(),
+                languageId: editor.document.languageId,
+                content: editor.document.getText(),
+                viewColumn: editor.viewColumn,
+                selections: editor.selections.map(this.toTraceSelection),
+            },
+        });
+    }
+
+    private toTraceSelection = ({ anchor, active }: vscode.Selection): TraceSelection => [
+        anchor.line,
+        anchor.character,
+        active.line,
+        active.character,
+    ];
+
+    /**
+     * Neovim crashed, failed to start or the connection was closed. Give typing back to vscode and offer to restart
+     */
+    private onNeovimExit = async (message = "Neovim has exited"): Promise<void> => {
+        if (this.isDisposed || this.isNeovimExited) {
+            return;
+        }
+        this.isNeovimExited = true;
+        this.isInit = false;
+        this.resolveNeovimExitPromise();
+        this.logger.error("process", message);
+        if (this.bufferSyncCheckTimer) {
+            clearInterval(this.bufferSyncCheckTimer);
+            this.bufferSyncCheckTimer = undefined;
+        }
+        if (this.typeHandlerDisplose) {
+            this.typeHandlerDisplose.dispose();
+            this.typeHandlerDisplose = undefined;
+        }
+        this.statusLine.modeString = "";
+        this.statusLine.errorString = "$(error) NEOVIM EXITED";
+        await vscode.commands.executeCommand("setContext", "neovim.init", false);
+        const action = await vscode.window.showErrorMessage(`vscode-neovim: ${message}`, "Restart");
+        if (action === "Restart" && !this.isDisposed) {
+            await vscode.commands.executeCommand("vscode-neovim.restart");
+        }
+    };
+
+    /**
+     * Send keys to neovim
+     */
+    private inputKeys(keys: string): Promise<number> {
+        this.logger.debug("rpc", "outgoing input", keys);
+        return this.client.input(keys);
+    }
+
+    /**
+     * Send batch of requests to neovim
+     */
+    private callAtomic(requests: VimValue[]): Promise<[unknown[], boolean]> {
+        this.logger.debug("rpc", "outgoing call_atomic", requests);
+        return this.client.callAtomic(requests);
+    }
+
+    /**
+     * Prepare already running neovim. Support scripts are sourced only once since they're defining autocommands,
+     * buffers and windows left by the previous session (e.g. before reloading the window) are removed
+     */
+    private async initServerSession(): Promise<void> {
+        const isLoaded = await this.client.eval("exists('g:vscode')");
+        if (!isLoaded) {
+            // options script isn't sourced, it would change global options of the user session
+            const escapedPath = await this.client.callFunction("fnameescape", [this.neovimSupportScriptPath]);
+            await this.client.command(`source ${escapedPath}`);
+        }
+        await this.client.callFunction("VSCodeCleanupSession", [this.channelId]);
     }
 
     private async initBuffer(e: vscode.TextEditor): Promise<NeovimBuffer | undefined> {
@@ -425,8 +792,9 @@ export class NVIMPluginController implements vscode.Disposable {
             await this.client.request("nvim_win_set_buf", [winId, buf.id]);
             return;
         }
-        // this.documentChangesInInsertMode.set(uri, {});
         this.documentText.set(uri, e.document.getText());
+        this.documentLastSeenVersion.set(uri, e.document.version);
+        this.recordOpenEditor(e);
         await this.nvimInitPromise;
         let buf: NeovimBuffer | undefined;
         if (this.pendingBuffers.has(uri)) {
@@ -448,8 +816,6 @@ export class NVIMPluginController implements vscode.Disposable {
         }
         // this.currentNeovimBuffer = buf;
         this.managedBufferIds.add(buf.id);
-        const eol = doc.eol === vscode.EndOfLine.LF ? "\n" : "\r\n";
-        const lines = doc.getText().split(eol);
         const {
             options: { insertSpaces, tabSize },
         } = e;
@@ -463,30 +829,59 @@ export class NVIMPluginController implements vscode.Disposable {
         requests.push(["nvim_buf_set_option", [buf.id, "shiftwidth", insertSpaces ? (tabSize as number) : 1]]);
         // requests.push(["nvim_buf_set_option", [buf.id, "softtabstop", tabSize as number]]);
 
-        requests.push(["nvim_buf_set_lines", [buf.id, 0, 1, false, lines]]);
-        // if (cursor) {
-        requests.push(["nvim_win_set_cursor", [winId, this.getNeovimCursorPosForEditor(e)]]);
-        // }
+        requests.push(...this.getBufferContentRequests(e, winId, buf));
         requests.push(["nvim_buf_set_var", [buf.id, "vscode_controlled", true]]);
+        requests.push(["nvim_buf_set_var", [buf.id, "vscode_channel", this.channelId]]);
+        if (this.nvimSocket) {
+            requests.push(["nvim_buf_set_option", [buf.id, "swapfile", false]]);
+        }
         requests.push(["nvim_buf_set_name", [buf.id, uri]]);
         requests.push(["nvim_call_function", ["VSCodeClearUndo", [buf.id]]]);
+        const cmdwinType = this.cmdwinDocuments.get(uri);
+        if (cmdwinType) {
+            requests.push(["nvim_call_function", ["VSCodeSetupCmdwin", [buf.id, cmdwinType]]]);
+        }
         requests.push(["nvim_buf_set_option", [buf.id, "buflisted", true]]);
         // this.editorPendingCursor.set(e, { line: cursor.line, col: cursor.character, screenRow: 0, totalSkips: 0 });
-        await this.client.callAtomic(requests);
+        await this.callAtomic(requests);
         this.bufferIdToUri.set(buf.id, uri);
         this.uriToBuffer.set(uri, buf);
-        buf.listen("lines", this.onNeovimBufferEvent);
+        if (
+            this.bufferSyncBackend !== "bytes" ||
+            !(await this.client.callFunction("VSCodeAttachBufferBytes", [buf.id]))
+        ) {
+            buf.listen("lines", this.onNeovimBufferEvent);
+        }
         return buf;
     }
 
+    /**
+     * Byte level events & nvim_buf_set_text are available since neovim 0.5
+     */
+    private async isByteLevelSyncSupported(): Promise<boolean> {
+        const [, apiInfo] = (await this.client.request("nvim_get_api_info", [])) as [
+            number,
+            { functions: { name: string }[] },
+        ];
+        return apiInfo.functions.some(f => f.name === "nvim_buf_set_text");
+    }
+
+    /**
+     * Requests to replace the whole buffer content by the document text and set the cursor from the editor
+     */
+    private getBufferContentRequests(e: vscode.TextEditor, winId: number, buf: NeovimBuffer): [string, VimValue[]][] {
+        const eol = e.document.eol === vscode.EndOfLine.LF ? "\n" : "\r\n";
+        const lines = e.document.getText().split(eol);
+        return [
+            ["nvim_buf_set_lines", [buf.id, 0, -1, false, lines]],
+            ["nvim_win_set_cursor", [winId, this.getNeovimCursorPosForEditor(e)]],
+        ];
+    }
+
     private onChangeTextDocument = async (e: vscode.TextDocumentChangeEvent): Promise<void> => {
+        const version = e.document.version;
         await this.nvimInitPromise;
         const uri = e.document.uri.toString();
-        const version = e.document.version;
-        if (this.documentLastChangedVersion.get(uri) === version) {
-            return;
-        }
-        // const eol = e.document.eol === vscode.EndOfLine.LF ? "\n" : "\r\n";
         const buf = this.uriToBuffer.get(uri);
         if (!buf) {
             return;
@@ -494,9 +889,37 @@ export class NVIMPluginController implements vscode.Disposable {
         if (!this.managedBufferIds.has(buf.id)) {
             return;
         }
-        const changed = this.documentChangesInInsertMode.get(uri);
-        if (!changed) {
-            this.documentChangesInInsertMode.set(uri, true);
+        const lastSeenVersion = this.documentLastSeenVersion.get(uri);
+        this.documentLastSeenVersion.set(uri, version);
+        if (this.documentLastChangedVersion.get(uri) === version) {
+            return;
+        }
+        this.traceRecorder.record({
+            type: "document-change",
+            uri,
+            version,
+            changes: e.contentChanges.map(({ range, text }) => ({
+                range: [range.start.line, range.start.character, range.end.line, range.end.character],
+                text,
+            })),
+        });
+        // missed some change or the document was changed again while we were waiting, can't rely on the change log anymore
+        if (lastSeenVersion == null || lastSeenVersion + 1 !== version || e.document.version !== version) {
+            this.logger.info("document", `Missed changes in ${uri}, version ${lastSeenVersion} -> ${version}`);
+            this.documentsRequireFullSync.add(uri);
+            this.documentPendingEdits.delete(uri);
+        }
+        if (!this.documentsRequireFullSync.has(uri)) {
+            const pendingEdits = this.documentPendingEdits.get(uri) || [];
+            for (const edit of Utils.prepareLineEditsFromContentChanges(e.document, e.contentChanges)) {
+                const merged = pendingEdits.length ? Utils.mergeLineEdits(pendingEdits.slice(-1)[0], edit) : undefined;
+                if (merged) {
+                    pendingEdits.splice(-1, 1, merged);
+                } else {
+                    pendingEdits.push(edit);
+                }
+            }
+            this.documentPendingEdits.set(uri, pendingEdits);
         }
         if (!this.isInsertMode) {
             this.uploadDocumentChangesToNeovim();
@@ -556,7 +979,7 @@ export class NVIMPluginController implements vscode.Disposable {
         if (activeColumns.has(vscode.ViewColumn.One)) {
             requests.push(["nvim_call_function", ["VSCodeClearJumpIfFirstWin", []]]);
         }
-        await this.client.callAtomic(requests);
+        await this.callAtomic(requests);
         // wipeout any buffers with non visible documents. We process them here because onDidCloseTextDocument fires before onChangedEditors
         // and wiping out the buffer will close the associated nvim windows normally and we want to prevent this
         const allBuffers = await this.client.buffers;
@@ -572,12 +995,22 @@ export class NVIMPluginController implements vscode.Disposable {
             if (!vscode.workspace.textDocuments.find(d => d.uri.toString() === uri)) {
                 wipeoutBuffers.add(buffer.id);
                 buffer.unlisten("lines", this.onNeovimBufferEvent);
+                this.bufferEditQueue.clear(buffer.id);
                 this.bufferIdToUri.delete(buffer.id);
                 this.managedBufferIds.delete(buffer.id);
                 this.uriToBuffer.delete(uri);
-                this.documentChangesInInsertMode.delete(uri);
+                this.documentPendingEdits.delete(uri);
+                this.documentsRequireFullSync.delete(uri);
+                this.documentLastSeenVersion.delete(uri);
                 this.documentText.delete(uri);
                 this.documentLastChangedVersion.delete(uri);
+                this.documentLastSyncedState.delete(uri);
+                if (this.cmdwinDocuments.has(uri)) {
+                    this.cmdwinDocuments.delete(uri);
+                    vscode.workspace.fs.delete(vscode.Uri.parse(uri)).then(undefined, () => {
+                        /* ignore */
+                    });
+                }
             }
         }
         if (wipeoutBuffers.size) {
@@ -599,6 +1032,7 @@ export class NVIMPluginController implements vscode.Disposable {
         if (!e || !e.viewColumn) {
             return;
         }
+        this.traceRecorder.record({ type: "active-editor", uri: e.document.uri.toString() });
         const winId = this.editorColumnIdToWinId.get(e.viewColumn);
         if (!winId) {
             return;
@@ -634,7 +1068,7 @@ export class NVIMPluginController implements vscode.Disposable {
         } else {
             requests.push(["nvim_call_function", ["VSCodeStoreJumpForWin", [winId]]]);
         }
-        await this.client.callAtomic(requests);
+        await this.callAtomic(requests);
     };
 
     // Following lines are enabling vim-style cursor follow on scroll
@@ -720,9 +1154,16 @@ export class NVIMPluginController implements vscode.Disposable {
             delete updates[`${line}.${col}`];
 
             if (shouldIgnore) {
+                this.logger.debug("cursor", `Ignoring selection change from neovim, pos: ${line}:${col}`);
                 return;
             }
         }
+        this.traceRecorder.record({
+            type: "selection-change",
+            uri: e.textEditor.document.uri.toString(),
+            kind: e.kind,
+            selections: e.selections.map(this.toTraceSelection),
+        });
         // try to update cursor in neovim as rarely as we can
         if (this.isInsertMode) {
             return;
@@ -762,6 +1203,10 @@ export class NVIMPluginController implements vscode.Disposable {
             return;
         }
         if (gridConf[1].cursorLine === cursor.line && gridConf[1].cursorPos === cursor.character) {
+            this.logger.debug(
+                "cursor",
+                `Selection change matches neovim cursor, pos: ${cursor.line}:${cursor.character}`,
+            );
             return;
         }
         // multi-selection
@@ -789,7 +1234,7 @@ export class NVIMPluginController implements vscode.Disposable {
                     "nvim_win_set_cursor",
                     [winId, this.getNeovimCursorPosForEditor(e.textEditor, lastSelection.active)],
                 ]);
-                this.client.callAtomic(requests);
+                this.callAtomic(requests);
             }
         } else {
             let createJumpEntry = !e.kind || e.kind === vscode.TextEditorSelectionChangeKind.Command;
@@ -798,6 +1243,10 @@ export class NVIMPluginController implements vscode.Disposable {
                 createJumpEntry = false;
                 this.skipJumpsForUris.delete(e.textEditor.document.uri.toString());
             }
+            this.logger.debug(
+                "cursor",
+                `Editor cursor -> neovim, win: ${winId}, pos: ${cursor.line}:${cursor.character}, kind: ${e.kind}`,
+            );
             this.updateCursorPositionInNeovim(winId, this.getNeovimCursorPosForEditor(e.textEditor), createJumpEntry);
         }
 
@@ -841,7 +1290,7 @@ export class NVIMPluginController implements vscode.Disposable {
                 "nvim_win_set_cursor",
                 [0, [lastSelection.active.line + 1, lastSelection.active.character]],
             ]);
-            await this.client.callAtomic(requests);
+            await this.callAtomic(requests);
         } else if (!this.isScrolling) {
             // exclude clicks while in scrolling/in scroll commiting. It'll be handled in commitScrolling()
             const screenRow =
@@ -858,12 +1307,31 @@ export class NVIMPluginController implements vscode.Disposable {
             return;
         }
         if (!this.isInsertMode || this.isRecording) {
-            this.client.input(this.normalizeKey(type.text));
+            this.traceRecorder.record({ type: "type", text: type.text });
+            this.sendTypedKeys(this.normalizeKey(type.text));
         } else {
             vscode.commands.executeCommand("default:type", { text: type.text });
         }
     };
 
+    /**
+     * Send keys to neovim. Keys are held back while vscode is busy with applying neovim edits,
+     * otherwise they will produce more changes on top of the not yet applied ones
+     */
+    private sendTypedKeys = async (keys: string): Promise<void> => {
+        if (this.pendingTypedKeys || this.bufferEditQueue.isSaturated) {
+            const shouldWait = !this.pendingTypedKeys;
+            this.pendingTypedKeys += keys;
+            if (!shouldWait) {
+                return;
+            }
+            await this.bufferEditQueue.waitForDrain();
+            keys = this.pendingTypedKeys;
+            this.pendingTypedKeys = "";
+        }
+        await this.inputKeys(keys);
+    };
+
     private normalizeKey(key: string): string {
         switch (key) {
             case "\n":
@@ -875,254 +1343,233 @@ export class NVIMPluginController implements vscode.Disposable {
         }
     }
 
-    private normalizeString(str: string): string {
-        return str.replace("\n", "<CR>").replace("<", "<LT>");
-    }
-
     private onNeovimBufferEvent = (
         buffer: NeovimBuffer,
         tick: number,
         firstLine: number,
         lastLine: number,
         linedata: string[],
-        _more: boolean,
+        more: boolean,
     ): void => {
         // ignore in insert mode. This breaks o and O commands with <count> prefix but since we're rebinding them
         // to vscode commands it's not a big problem and anyway not supported (at least for now)
         // if (this.isInsertMode) {
         //     return;
         // }
-        // vscode disallow to do multiple edits without awaiting textEditor.edit result
-        // so we'll process all changes in slightly throttled function
-        this.pendingBufChangesQueue.push({ buffer, firstLine, lastLine, data: linedata, tick });
-        if (this.resolveBufQueuePromise) {
-            this.resolveBufQueuePromise();
-        }
+        this.logger.debug(
+            "buffer",
+            `lines event buf: ${buffer.id}, tick: ${tick}, lines: ${firstLine}-${lastLine}, more: ${more}`,
+            linedata,
+        );
+        this.traceRecorder.record({
+            type: "buffer-lines",
+            bufferId: buffer.id,
+            tick,
+            firstLine,
+            lastLine,
+            data: linedata,
+            more,
+        });
+        this.bufferEditQueue.push(
+            { kind: "lines", bufferId: buffer.id, firstLine, lastLine, data: linedata, tick },
+            more,
+        );
     };
 
-    private watchAndApplyNeovimEdits = async (): Promise<void> => {
-        // eslint-disable-next-line no-constant-condition
-        while (true) {
-            const edits = this.pendingBufChangesQueue.splice(0);
-            if (!edits.length) {
-                let timeout: NodeJS.Timeout | undefined;
-                this.bufQueuePromise = new Promise(res => {
-                    this.resolveBufQueuePromise = res;
-                    // not necessary to timeout at all, but let's make sure
-                    // !note looks like needed - increasing value starting to produce buffer desync. Because of this?
-                    timeout = setTimeout(res, 40);
-                });
-                await this.bufQueuePromise;
-                if (timeout) {
-                    clearTimeout(timeout);
-                }
-                this.bufQueuePromise = undefined;
-                this.resolveBufQueuePromise = undefined;
-            } else {
-                const changes: Map<
-                    string,
-                    { lines: string[]; editor: vscode.TextEditor; changed: boolean }
-                > = new Map();
-                for (const { buffer, data, firstLine, lastLine, tick } of edits) {
-                    const uri = this.bufferIdToUri.get(buffer.id);
-                    if (!uri) {
-                        continue;
-                    }
-                    let textEditor: vscode.TextEditor | undefined;
-                    if (this.externalBuffersShowOnNextChange.has(buffer.id)) {
-                        this.externalBuffersShowOnNextChange.delete(buffer.id);
-                        textEditor = await vscode.window.showTextDocument(vscode.Uri.parse(uri));
-                    } else {
-                        textEditor = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === uri);
-                    }
-                    if (!textEditor) {
-                        continue;
-                    }
-                    let change:
-                        | { lines: string[]; editor: vscode.TextEditor; changed: boolean }
-                        | undefined = changes.get(uri);
-                    if (!change) {
-                        const eol = textEditor.document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
-                        change = {
-                            lines: textEditor.document.getText().split(eol),
-                            editor: textEditor,
-                            changed: false,
-                        };
-                        changes.set(uri, change);
-                    }
-                    const skipTick = this.skipBufferTickUpdate.get(buffer.id) || 0;
-                    if (skipTick >= tick) {
-                        continue;
-                    }
-                    // happens after undo
-                    if (firstLine === lastLine && data.length === 0) {
-                        continue;
+    private onNeovimBufferBytesEvent = (
+        bufferId: number,
+        tick: number,
+        startLine: number,
+        startCol: number,
+        endLine: number,
+        endCol: number,
+        data: string[],
+    ): void => {
+        this.logger.debug(
+            "buffer",
+            `bytes event buf: ${bufferId}, tick: ${tick}, range: ${startLine}:${startCol}-${endLine}:${endCol}`,
+            data,
+        );
+        this.traceRecorder.record({ type: "buffer-bytes", bufferId, tick, startLine, startCol, endLine, endCol, data });
+        this.bufferEditQueue.push({ kind: "bytes", bufferId, tick, startLine, startCol, endLine, endCol, data });
+    };
+
+    /**
+     * Apply neovim buffer changes to the document. Changes are coming in the tick order
+     */
+    private applyNeovimBufferChanges = async (bufferId: number, changes: BufferChange[]): Promise<void> => {
+        const uri = this.bufferIdToUri.get(bufferId);
+        if (!uri) {
+            return;
+        }
+        let document: vscode.TextDocument | undefined;
+        if (this.externalBuffersShowOnNextChange.has(bufferId)) {
+            this.externalBuffersShowOnNextChange.delete(bufferId);
+            document = (await vscode.window.showTextDocument(vscode.Uri.parse(uri))).document;
+        } else {
+            document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri);
+        }
+        if (!document) {
+            return;
+        }
+        const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+        const docLines = document.getText().split(eol);
+        let lines = [...docLines];
+        let changed = false;
+        // track the lines region affected by changes. Lines before the first changed line and
+        // the number of lines at the end which weren't touched by any change are same in old and new lines
+        let firstChangedLine = Infinity;
+        let untouchedLastLines = Infinity;
+        const skipTick = this.skipBufferTickUpdate.get(bufferId) || 0;
+        for (const change of changes) {
+            if (skipTick >= change.tick) {
+                this.logger.debug("buffer", `Skipping own change buf: ${bufferId}, tick: ${change.tick}`);
+                continue;
+            }
+            if (change.kind === "bytes") {
+                const lastLine = lines.length - 1;
+                let { startLine: start, endLine: end, data } = change;
+                let startChar = start <= lastLine ? Utils.convertByteNumToCharNum(lines[start], change.startCol) : 0;
+                let endChar = end <= lastLine ? Utils.convertByteNumToCharNum(lines[end], change.endCol) : 0;
+                // neovim buffer ends with the line break, the document doesn't. Changes reaching after the last line
+                // (e.g. :$put or deleting the last line) are mapped to the end of the last document line
+                if (end > lastLine) {
+                    if (data.length > 1) {
+                        // inserted text ends with the line break
+                        data = start > lastLine ? ["", ...data.slice(0, -1)] : data.slice(0, -1);
+                    } else if (start > 0 && start <= lastLine) {
+                        // deleted text ends with the last line break, delete the line break before it instead
+                        start--;
+                        startChar = lines[start].length;
                     }
-                    change.changed = true;
-                    // nvim sends following:
-                    // 1. string change - firstLine is the changed line , lastLine + 1
-                    // 2. cleaned line but not deleted - first line is the changed line, lastLine + 1, linedata is ""
-                    // 3. newline insert - firstLine = lastLine and linedata is "" or new data
-                    // 4. line deleted - firstLine is changed line, lastLine + 1, linedata is empty []
-                    // LAST LINE is exclusive and can be out of the last editor line
-                    if (firstLine !== lastLine && data.length === 1 && data[0] === "") {
-                        // 2
-                        for (let line = firstLine; line < lastLine; line++) {
-                            change.lines[line] = "";
-                        }
-                    } else if (firstLine !== lastLine && !data.length) {
-                        // 4
-                        for (let line = 0; line < lastLine - firstLine; line++) {
-                            change.lines.splice(firstLine, 1);
-                        }
-                    } else if (firstLine === lastLine) {
-                        // 3
-                        if (firstLine > change.lines.length) {
-                            data.unshift("");
-                        }
-                        if (firstLine === 0) {
-                            change.lines.unshift(...data);
-                        } else {
-                            change.lines = [
-                                ...change.lines.slice(0, firstLine),
-                                ...data,
-                                ...change.lines.slice(firstLine),
-                            ];
-                        }
-                    } else {
-                        // 1 or 3
-                        // handle when change is overflow through editor lines. E.g. pasting on last line.
-                        // Without newline it will append to the current one
-                        if (firstLine >= change.lines.length) {
-                            data.unshift("");
-                        }
-                        change.lines = [...change.lines.slice(0, firstLine), ...data, ...change.lines.slice(lastLine)];
-                        // for (let i = 0; i < data.length; i++) {
-                        //     const str = data[i];
-                        //     const line = firstLine + i;
-                        //     if (line >= lastLine) {
-                        //         change.lines = [...change.lines.slice(0, line), str, ...change.lines.slice(line + 1)];
-                        //     } else if (typeof change.lines[line] === "undefined") {
-                        //         change.lines.push(str);
-                        //     } else {
-                        //         change.lines[line] = str;
-                        //     }
-                        // }
-                        // if (firstLine + data.length < lastLine) {
-                        //     const reduceFrom = firstLine + data.length;
-                        //     for (let line = firstLine + data.length; line < lastLine; line++) {
-                        //         change.lines.splice(reduceFrom, 1);
-                        //     }
-                        // }
+                    if (start > lastLine) {
+                        start = lastLine;
+                        startChar = lines[lastLine].length;
                     }
+                    end = lastLine;
+                    endChar = lines[lastLine].length;
                 }
-                // replacing lines with WorkspaceEdit() moves cursor to the end of the line, unfortunately this won't work
-                // const workspaceEdit = new vscode.WorkspaceEdit();
-                try {
-                    for (const [uri, change] of changes) {
-                        const { editor, lines, changed } = change;
-                        if (!changed) {
-                            continue;
-                        }
-                        let oldText = editor.document.getText();
-                        const eol = editor.document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
-                        let newText = lines.join(eol);
-                        // add few lines to the end otherwise diff may be wrong for a newline characters
-                        oldText += `${eol}end${eol}end`;
-                        newText += `${eol}end${eol}end`;
-                        const diffPrepare = Utils.diffLineToChars(oldText, newText);
-                        const d = diff(diffPrepare.chars1, diffPrepare.chars2);
-                        const ranges = Utils.prepareEditRangesFromDiff(d);
-                        if (!ranges.length) {
-                            continue;
-                        }
-                        this.documentLastChangedVersion.set(uri, editor.document.version + 1);
-                        // const cursor = editor.selection.active;
-                        const success = await editor.edit(builder => {
-                            for (const range of ranges) {
-                                const text = lines.slice(range.newStart, range.newEnd + 1);
-                                if (range.type === "removed") {
-                                    if (range.end >= editor.document.lineCount - 1 && range.start > 0) {
-                                        const startChar = editor.document.lineAt(range.start - 1).range.end.character;
-                                        builder.delete(new vscode.Range(range.start - 1, startChar, range.end, 999999));
-                                    } else {
-                                        builder.delete(new vscode.Range(range.start, 0, range.end + 1, 0));
-                                    }
-                                } else if (range.type === "changed") {
-                                    builder.replace(
-                                        new vscode.Range(range.start, 0, range.end, 999999),
-                                        text.join("\n"),
-                                    );
-                                } else if (range.type === "added") {
-                                    if (range.start >= editor.document.lineCount) {
-                                        text.unshift(
-                                            ...new Array(range.start - (editor.document.lineCount - 1)).fill(""),
-                                        );
-                                    } else {
-                                        text.push("");
-                                    }
-                                    builder.replace(new vscode.Position(range.start, 0), text.join("\n"));
-                                }
-                            }
-                        });
-                        if (success) {
-                            // workaround for cursor moving after inserting some text
-                            // it's not the ideal solution since there is minor transition from selection to single cursor
-                            // todo: another solution is to combine ranges and replacing text starting by prev line when need to insert something
-                            // if (!editor.selection.anchor.isEqual(editor.selection.active)) {
-                            //     // workaround cursor in insert recording mode
-                            //     // todo: why it's needed???
-                            //     if (this.isRecording) {
-                            //         editor.selections = [
-                            //             new vscode.Selection(editor.selection.active, editor.selection.active),
-                            //         ];
-                            //     } else {
-                            //         editor.selections = [new vscode.Selection(cursor, cursor)];
-                            //     }
-                            // }
-                            if (!this.isInsertMode) {
-                                // vscode manages cursor after edits very differently so
-                                // try to set cursor pos for the one obtained from neovim. This may be wrong because of race conditions
-                                if (editor.viewColumn) {
-                                    const winId = this.editorColumnIdToWinId.get(editor.viewColumn);
-                                    if (winId) {
-                                        const gridConf = [...this.grids].find(([, conf]) => conf.winId === winId);
-                                        if (gridConf) {
-                                            const cursorPos = Utils.getEditorCursorPos(editor, gridConf[1]);
-                                            this.updateCursorPosInEditor(editor, cursorPos.line, cursorPos.col);
-                                            // editor.selections = [
-                                            //     new vscode.Selection(
-                                            //         cursorPos.line,
-                                            //         cursorPos.col,
-                                            //         cursorPos.line,
-                                            //         cursorPos.col,
-                                            //     ),
-                                            // ];
-                                        }
-                                    }
-                                }
-                            } else if (this.isRecording) {
-                                editor.selections = [
-                                    new vscode.Selection(editor.selection.active, editor.selection.active),
-                                ];
-                            }
-                            this.documentText.set(uri, editor.document.getText());
+                const newLines = [...data];
+                newLines[0] = lines[start].slice(0, startChar) + newLines[0];
+                newLines[newLines.length - 1] += lines[end].slice(endChar);
+                changed = true;
+                firstChangedLine = Math.min(firstChangedLine, start);
+                untouchedLastLines = Math.min(untouchedLastLines, lines.length - end - 1);
+                lines.splice(start, end - start + 1, ...newLines);
+                continue;
+            }
+            const { data, firstLine, lastLine } = change;
+            // happens after undo
+            if (firstLine === lastLine && data.length === 0) {
+                continue;
+            }
+            changed = true;
+            firstChangedLine = Math.min(firstChangedLine, firstLine);
+            untouchedLastLines = Math.min(untouchedLastLines, Math.max(0, lines.length - lastLine));
+            // nvim sends following:
+            // 1. string change - firstLine is the changed line , lastLine + 1
+            // 2. cleaned line but not deleted - first line is the changed line, lastLine + 1, linedata is ""
+            // 3. newline insert - firstLine = lastLine and linedata is "" or new data
+            // 4. line deleted - firstLine is changed line, lastLine + 1, linedata is empty []
+            // LAST LINE is exclusive and can be out of the last editor line
+            if (firstLine !== lastLine && data.length === 1 && data[0] === "") {
+                // 2
+                for (let line = firstLine; line < lastLine; line++) {
+                    lines[line] = "";
+                }
+            } else if (firstLine !== lastLine && !data.length) {
+                // 4
+                for (let line = 0; line < lastLine - firstLine; line++) {
+                    lines.splice(firstLine, 1);
+                }
+            } else if (firstLine === lastLine) {
+                // 3
+                if (firstLine > lines.length) {
+                    data.unshift("");
+                }
+                if (firstLine === 0) {
+                    lines.unshift(...data);
+                } else {
+                    lines = [...lines.slice(0, firstLine), ...data, ...lines.slice(firstLine)];
+                }
+            } else {
+                // 1 or 3
+                // handle when change is overflow through editor lines. E.g. pasting on last line.
+                // Without newline it will append to the current one
+                if (firstLine >= lines.length) {
+                    data.unshift("");
+                }
+                lines = [...lines.slice(0, firstLine), ...data, ...lines.slice(lastLine)];
+            }
+        }
+        if (!changed) {
+            return;
+        }
+        try {
+            const untouchedLines = Math.min(untouchedLastLines, docLines.length, lines.length);
+            let regionStart = Math.min(
+                firstChangedLine,
+                docLines.length - untouchedLines,
+                lines.length - untouchedLines,
+            );
+            // appending/removing lines at the end must account the newline of the previous line
+            if (!untouchedLines && regionStart > 0) {
+                regionStart--;
+            }
+            const edits = Utils.calculateTextEditsFromLines(
+                docLines.slice(regionStart, docLines.length - untouchedLines),
+                lines.slice(regionStart, lines.length - untouchedLines),
+                regionStart,
+                !untouchedLines,
+            );
+            if (!edits.length) {
+                return;
+            }
+            this.logger.debug("buffer", `Applying ${edits.length} edits to ${uri}`, edits);
+            const workspaceEdit = new vscode.WorkspaceEdit();
+            for (const { startLine, startChar, endLine, endChar, text } of edits) {
+                workspaceEdit.replace(document.uri, new vscode.Range(startLine, startChar, endLine, endChar), text);
+            }
+            this.documentLastChangedVersion.set(uri, document.version + 1);
+            const success = await vscode.workspace.applyEdit(workspaceEdit);
+            if (!success) {
+                return;
+            }
+            this.documentText.set(uri, document.getText());
+            const editor = vscode.window.visibleTextEditors.find(e => e.document === document);
+            if (!editor) {
+                return;
+            }
+            if (!this.isInsertMode) {
+                // vscode manages cursor after edits very differently so
+                // try to set cursor pos for the one obtained from neovim. This may be wrong because of race conditions
+                if (editor.viewColumn) {
+                    const winId = this.editorColumnIdToWinId.get(editor.viewColumn);
+                    if (winId) {
+                        const gridConf = [...this.grids].find(([, conf]) => conf.winId === winId);
+                        if (gridConf) {
+                            const cursorPos = Utils.getEditorCursorPos(editor, gridConf[1]);
+                            this.updateCursorPosInEditor(editor, cursorPos.line, cursorPos.col);
                         }
                     }
-                    // if (workspaceEdit.size) {
-                    //     await vscode.workspace.applyEdit(workspaceEdit);
-                    // }
-                } catch (e) {
-                    await vscode.window.showErrorMessage(
-                        "vscode-neovim: Error applying neovim edits, please report a bug, error: " + e.message,
-                    );
                 }
+            } else if (this.isRecording) {
+                editor.selections = [new vscode.Selection(editor.selection.active, editor.selection.active)];
             }
+        } catch (e) {
+            this.logger.error("buffer", `Error applying neovim edits to ${uri}: ${e.message}`);
+            await vscode.window.showErrorMessage(
+                "vscode-neovim: Error applying neovim edits, please report a bug, error: " + e.message,
+            );
         }
     };
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     private onNeovimNotification = (method: string, events: [string, ...any[]]): void => {
+        if (method !== "redraw") {
+            this.logger.debug("rpc", `notification ${method}`, events);
+            this.traceRecorder.record({ type: "notification", method, args: events });
+        }
         if (method === "vscode-command") {
             const [vscodeCommand, commandArgs] = events as [string, unknown[]];
             this.handleVSCodeCommand(vscodeCommand, Array.isArray(commandArgs) ? commandArgs : [commandArgs]);
@@ -1146,6 +1593,19 @@ export class NVIMPluginController implements vscode.Disposable {
             this.handleExtensionRequest(command, args);
             return;
         }
+        if (method === "vscode-buffer-bytes") {
+            const [bufferId, tick, startLine, startCol, endLine, endCol, data] = (events as unknown) as [
+                number,
+                number,
+                number,
+                number,
+                number,
+                number,
+                string[],
+            ];
+            this.onNeovimBufferBytesEvent(bufferId, tick, startLine, startCol, endLine, endCol, data);
+            return;
+        }
         if (method !== "redraw") {
             return;
         }
@@ -1169,6 +1629,7 @@ export class NVIMPluginController implements vscode.Disposable {
     };
 
     private processRedrawBatch = (batch: [string, ...unknown[]][]): void => {
+        this.traceRecorder.record({ type: "redraw", batch });
         let newModeName: string | undefined;
         // since neovim sets cmdheight=0 internally various vim plugins like easymotion are working incorrect and awaiting hitting enter
         let acceptPrompt = false;
@@ -1181,6 +1642,7 @@ export class NVIMPluginController implements vscode.Disposable {
         }
 
         for (const [name, ...args] of batch) {
+            this.logger.redraw(name, args);
             const firstArg = args[0] || [];
             switch (name) {
                 case "mode_info_set": {
@@ -1243,6 +1705,11 @@ export class NVIMPluginController implements vscode.Disposable {
                         number,
                     ];
                     const allContent = content.map(([, str]) => str).join("");
+                    // input() prompt, not a command line
+                    if (!firstc && prompt && !this.commandLine && !this.cmdlineTimer) {
+                        this.prompts.input(prompt, allContent);
+                        break;
+                    }
                     // !note: neovim can send cmdline_hide followed by cmdline_show events
                     // !since quickpick can be destroyed slightly at later time after handling cmdline_hide we want to create new command line
                     // !controller and input for every visible cmdline_show event
@@ -1254,39 +1721,134 @@ export class NVIMPluginController implements vscode.Disposable {
                         clearTimeout(this.cmdlineTimer);
                         this.cmdlineTimer = undefined;
                         if (!this.commandLine) {
-                            this.commandLine = new CommandLineController(this.client, {
-                                onAccepted: this.onCmdAccept,
-                                onCanceled: this.onCmdCancel,
-                                onChanged: this.onCmdChange,
-                            });
+                            this.commandLine = this.createCommandLine();
                         }
-                        this.commandLine.show(allContent, firstc, prompt);
+                        this.commandLine.show(allContent, firstc, prompt, pos, level);
                     } else {
                         // if there is initial content and it's not currently displayed then it may come
                         // from some mapping. to prevent bad UI commandline transition we delay cmdline appearing here
                         if (allContent !== "" && allContent !== "'<,'>" && !this.commandLine) {
-                            this.cmdlineTimer = setTimeout(() => this.showCmdOnTimer(allContent, firstc, prompt), 200);
+                            this.cmdlineTimer = setTimeout(
+                                () => this.showCmdOnTimer(allContent, firstc, prompt, pos, level),
+                                200,
+                            );
                         } else {
                             if (!this.commandLine) {
-                                this.commandLine = new CommandLineController(this.client, {
-                                    onAccepted: this.onCmdAccept,
-                                    onCanceled: this.onCmdCancel,
-                                    onChanged: this.onCmdChange,
-                                });
+                                this.commandLine = this.createCommandLine();
                             }
-                            this.commandLine.show(allContent, firstc, prompt);
+                            this.commandLine.show(allContent, firstc, prompt, pos, level);
                         }
                     }
+                    if (this.commandLine) {
+                        this.commandLine.setBlockLines(this.cmdlineBlockLines);
+                    }
+                    // keep the preview of the outer command line while the nested one is displayed
+                    if (level > 1) {
+                        break;
+                    }
+                    if (firstc === ":") {
+                        this.substitutePreview.update(allContent);
+                    } else {
+                        this.substitutePreview.clear();
+                    }
+                    if (firstc === "/" || firstc === "?") {
+                        this.updateSearchPreview(allContent, firstc === "?");
+                    } else {
+                        this.searchPreview.clear();
+                    }
+                    break;
+                }
+                case "cmdline_block_show": {
+                    const [lines] = firstArg as [[number, string][][]];
+                    this.cmdlineBlockLines = lines.map(line => Utils.getMessageChunksText(line));
+                    if (this.commandLine) {
+                        this.commandLine.setBlockLines(this.cmdlineBlockLines);
+                    }
+                    break;
+                }
+                case "cmdline_block_append": {
+                    const [line] = firstArg as [[number, string][]];
+                    this.cmdlineBlockLines = [...this.cmdlineBlockLines, Utils.getMessageChunksText(line)];
+                    if (this.commandLine) {
+                        this.commandLine.setBlockLines(this.cmdlineBlockLines);
+                    }
+                    break;
+                }
+                case "cmdline_block_hide": {
+                    this.cmdlineBlockLines = [];
+                    if (this.commandLine) {
+                        this.commandLine.setBlockLines([]);
+                    }
+                    break;
+                }
+                case "cmdline_pos": {
+                    const [pos] = firstArg as [number, number];
+                    if (this.commandLine) {
+                        this.commandLine.setCursorPos(pos);
+                    }
                     break;
                 }
                 case "wildmenu_show": {
                     const [items] = firstArg as [string[]];
+                    if (this.prompts.setInputCompletionItems(items)) {
+                        break;
+                    }
                     if (this.commandLine) {
                         this.commandLine.setCompletionItems(items);
                     }
                     break;
                 }
+                case "popupmenu_show": {
+                    const [items, selected, , , grid] = firstArg as [PopupMenuItem[], number, number, number, number];
+                    this.isCmdlinePopupMenu = grid === -1;
+                    if (this.isCmdlinePopupMenu) {
+                        // wildoptions+=pum, the command line completion comes as the popup menu
+                        if (this.prompts.setInputCompletionItems(items.map(([word]) => word))) {
+                            break;
+                        }
+                        if (this.commandLine) {
+                            this.commandLine.setCompletionItems(items.map(([word]) => word));
+                            this.commandLine.selectCompletionItem(selected);
+                        }
+                    } else {
+                        this.popupMenu.show(items, selected);
+                    }
+                    break;
+                }
+                case "popupmenu_select": {
+                    const [selected] = firstArg as [number];
+                    if (this.isCmdlinePopupMenu) {
+                        if (this.commandLine) {
+                            this.commandLine.selectCompletionItem(selected);
+                        }
+                    } else {
+                        this.popupMenu.select(selected);
+                    }
+                    break;
+                }
+                case "popupmenu_hide": {
+                    if (this.isCmdlinePopupMenu) {
+                        if (this.commandLine) {
+                            this.commandLine.setCompletionItems([]);
+                        }
+                    } else {
+                        this.popupMenu.hide();
+                    }
+                    this.isCmdlinePopupMenu = false;
+                    break;
+                }
+                case "tabline_update": {
+                    const [curtab, tabs] = firstArg as [NeovimTabpage["tab"], NeovimTabpage[]];
+                    this.tabLine.update(curtab, tabs);
+                    break;
+                }
                 case "cmdline_hide": {
+                    this.prompts.hideInput();
+                    if (this.commandLine && this.commandLine.hideNestedLevel()) {
+                        break;
+                    }
+                    this.substitutePreview.clear();
+                    this.searchPreview.clear();
                     if (this.cmdlineTimer) {
                         clearTimeout(this.cmdlineTimer);
                         this.cmdlineTimer = undefined;
@@ -1313,25 +1875,51 @@ export class NVIMPluginController implements vscode.Disposable {
                     break;
                 }
                 case "msg_show": {
-                    let str = "";
+                    let messages: NeovimMessage[] = [];
                     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    for (const [type, content] of args as [string, any[], never][]) {
+                    for (const [type, content, replace] of args as [string, any[], boolean][]) {
                         // if (ui === "confirm" || ui === "confirmsub" || ui === "return_prompt") {
                         //     this.nextInputBlocking = true;
                         // }
                         if (type === "return_prompt") {
                             acceptPrompt = true;
+                            continue;
                         }
-                        if (content) {
-                            for (const c of content) {
-                                const [, cmdStr] = c;
-                                if (cmdStr) {
-                                    str += cmdStr;
-                                }
-                            }
+                        if (type === "confirm" || type === "confirm_sub" || type === "confirmsub") {
+                            this.prompts.confirm(type, Utils.getMessageChunksText(content));
+                            continue;
+                        }
+                        const text = Utils.getMessageChunksText(content);
+                        const batch = messages.map(m => m.text);
+                        if (this.prompts.isInputListPrompt(text, batch)) {
+                            this.prompts.inputList(text, batch);
+                            // the choices are displayed in the prompt, keep other messages of the batch
+                            messages = messages.filter(m => !hasInputListChoices(m.text));
+                            continue;
                         }
+                        messages.push({ kind: type, text, replaceLast: replace });
+                        this.prompts.addMessage(text);
+                    }
+                    const statusMessages = this.messages.addMessages(messages);
+                    if (statusMessages.length) {
+                        const lines = statusMessages
+                            .map(m => m.text)
+                            .join("\n")
+                            .split("\n");
+                        this.statusLine.msgString =
+                            lines.length > 1 ? `${lines[0]} (+${lines.length - 1} lines)` : lines[0];
+                    } else if (messages.length) {
+                        // all messages are displayed as notifications, don't keep the previous message
+                        this.statusLine.msgString = "";
                     }
-                    this.statusLine.msgString = str;
+                    break;
+                }
+                case "msg_history_show": {
+                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                    const [entries] = firstArg as [[string, any[]][]];
+                    this.messages.showHistory(
+                        entries.map(([kind, content]) => ({ kind, text: Utils.getMessageChunksText(content) })),
+                    );
                     break;
                 }
                 case "msg_showmode": {
@@ -1351,6 +1939,9 @@ export class NVIMPluginController implements vscode.Disposable {
                 }
                 case "msg_clear": {
                     this.statusLine.msgString = "";
+                    this.prompts.hideConfirm();
+                    this.prompts.hideInputList();
+                    this.prompts.clearMessages();
                     break;
                 }
                 case "mode_change": {
@@ -1567,6 +2158,9 @@ export class NVIMPluginController implements vscode.Disposable {
         if (newModeName) {
             this.handleModeChange(newModeName);
         }
+        if (newModeName || cursorUpdates.size || hlUpdates.size) {
+            this.scheduleStatusLineUpdate();
+        }
 
         for (const grid of cursorUpdates) {
             const gridConf = this.grids.get(grid);
@@ -1582,6 +2176,7 @@ export class NVIMPluginController implements vscode.Disposable {
                 continue;
             }
             if (editor === vscode.window.activeTextEditor && this.ignoreNextCursorUpdate) {
+                this.logger.debug("cursor", `Ignoring cursor update for grid: ${grid}`);
                 this.ignoreNextCursorUpdate = false;
                 continue;
             }
@@ -1594,6 +2189,10 @@ export class NVIMPluginController implements vscode.Disposable {
             gridConf.cursorPos = cursor.col;
             // allow to update cursor only for active editor
             if (editor === vscode.window.activeTextEditor) {
+                this.logger.debug(
+                    "cursor",
+                    `Neovim cursor -> editor, grid: ${grid}, pos: ${cursor.line}:${cursor.col}`,
+                );
                 this.updateCursorPosInEditor(editor, cursor.line, cursor.col);
             }
         }
@@ -1620,7 +2219,7 @@ export class NVIMPluginController implements vscode.Disposable {
             }
         }
         if (acceptPrompt) {
-            this.client.input("<CR>");
+            this.prompts.returnPrompt();
         }
     };
 
@@ -1641,12 +2240,54 @@ export class NVIMPluginController implements vscode.Disposable {
             }
         }
         this.currentModeName = modeName;
+        this.updateModeIndicator(modeName);
         const e = vscode.window.activeTextEditor;
         if (!e) {
             return;
         }
         vscode.commands.executeCommand("setContext", "neovim.mode", modeName);
         this.applyCursorStyleToEditor(e, modeName);
+        if (!this.isInsertMode) {
+            this.checkBufferSync(e);
+        }
+    };
+
+    private scheduleStatusLineUpdate(): void {
+        if (!this.renderStatusLine || this.statusLineUpdateTimer) {
+            return;
+        }
+        this.statusLineUpdateTimer = setTimeout(this.updateStatusLine, 100);
+    }
+
+    private updateStatusLine = async (): Promise<void> => {
+        this.statusLineUpdateTimer = undefined;
+        let segments: [string, string][];
+        try {
+            segments = await this.client.callFunction("VSCodeEvalStatusline", [200]);
+        } catch (e) {
+            this.logger.error("statusline", "Unable to evaluate statusline", e.message);
+            segments = [];
+        }
+        this.statusLine.neovimStatusLine = segments.map(([text, color]): StatusLineSegment => ({ text, color }));
+    };
+
+    private updateModeIndicator = async (modeName: string): Promise<void> => {
+        if (modeName !== "visual" && modeName !== "visual_select") {
+            this.modeIndicator.update(getIndicatorMode(modeName));
+            return;
+        }
+        // mode_change doesn't tell the visual submode
+        let mode: string;
+        try {
+            ({ mode } = await this.client.mode);
+        } catch (e) {
+            // e.g. neovim is exiting
+            this.logger.warn("state", "Unable to get the visual submode", e.message);
+            return;
+        }
+        if (this.currentModeName === modeName) {
+            this.modeIndicator.update(getIndicatorMode(modeName, mode));
+        }
     };
 
     private getNeovimCursorPosForEditor = (e: vscode.TextEditor, pos?: vscode.Position): [number, number] => {
@@ -1665,7 +2306,7 @@ export class NVIMPluginController implements vscode.Disposable {
         if (createJumpEntry) {
             requests.push(["nvim_call_function", ["VSCodeStoreJumpForWin", [winId]]]);
         }
-        await this.client.callAtomic(requests);
+        await this.callAtomic(requests);
     };
 
     /**
@@ -1811,7 +2452,7 @@ export class NVIMPluginController implements vscode.Disposable {
             if (winBuf.id === buf.id) {
                 const column = vscode.window.activeTextEditor.viewColumn || vscode.ViewColumn.One;
                 const winId = this.editorColumnIdToWinId.get(column)!;
-                await this.client.callAtomic([
+                await this.callAtomic([
                     ["nvim_win_set_buf", [winId, buf.id]],
                     ["nvim_win_close", [possibleBufWindow.id, false]],
                 ]);
@@ -1822,6 +2463,8 @@ export class NVIMPluginController implements vscode.Disposable {
         const p = buf[ATTACH](true);
         this.client.attachBuffer(buf, "lines", this.onNeovimBufferEvent);
         await p;
+        // the buffer is managed by this vscode instance from now, it's cleaned up with the session buffers
+        await buf.setVar("vscode_channel", this.channelId);
         // buf.listen("lines", this.onNeovimBufferEvent);
         const lines = await buf.lines;
         // will trigger onOpenTextDocument but it's fine since the doc is not yet displayed and we won't process it
@@ -1895,6 +2538,7 @@ export class NVIMPluginController implements vscode.Disposable {
         eventArgs: [string, ...unknown[]],
         response: RequestResponse,
     ): Promise<void> => {
+        this.logger.debug("rpc", `request ${eventName}`, eventArgs);
         try {
             let result: unknown;
             if (eventName === "vscode-command") {
@@ -2094,6 +2738,52 @@ export class NVIMPluginController implements vscode.Disposable {
                 }
                 break;
             }
+            case "cmdwin": {
+                const [type] = args as [string];
+                await this.openCmdwin(type);
+                break;
+            }
+            case "cmdwin-execute": {
+                const [type, line] = args as [string, string];
+                const editorsChanged = new Promise(res => {
+                    const disposable = vscode.window.onDidChangeVisibleTextEditors(() => {
+                        disposable.dispose();
+                        res();
+                    });
+                });
+                await vscode.commands.executeCommand("workbench.action.revertAndCloseActiveEditor");
+                // the line must be executed in the original buffer, wait until onChangedEdtiors sets it back to the window
+                // and wipes out the cmdwin buffer. It's started before this handler by the same event
+                await editorsChanged;
+                if (this.editorChangedPromise) {
+                    await this.editorChangedPromise;
+                }
+                if (line) {
+                    await this.inputKeys(type + Utils.escapeKeys(line) + "<CR>");
+                }
+                break;
+            }
+            case "mode-changed": {
+                const [mode] = args as [string];
+                if (this.currentModeName === "visual" || this.currentModeName === "visual_select") {
+                    this.modeIndicator.update(getIndicatorMode(this.currentModeName, mode));
+                }
+                break;
+            }
+            case "tabs": {
+                await this.tabLine.showTabPages();
+                break;
+            }
+            case "tab-go": {
+                const [count, direction] = args as [number, "next" | "prev"];
+                await this.tabLine.goToTabPage(count, direction);
+                break;
+            }
+            case "tab-move": {
+                const [to] = args as [string];
+                await this.tabLine.moveTabPage(to);
+                break;
+            }
             case "notify-recording": {
                 this.isRecording = true;
                 break;
@@ -2118,76 +2808,44 @@ export class NVIMPluginController implements vscode.Disposable {
         return res;
     };
 
+    /**
+     * Send document changes pending in the insert mode. Neovim edits must land first, otherwise document changes
+     * will be uploaded on top of the wrong buffer state
+     */
+    private flushDocumentChanges = async (): Promise<void> => {
+        await this.bufferEditQueue.waitForDrain();
+        await this.uploadDocumentChangesToNeovim();
+    };
+
     private uploadDocumentChangesToNeovim = async (): Promise<void> => {
         const requests: [string, unknown[]][] = [];
-        for (const [uri, changed] of this.documentChangesInInsertMode) {
-            if (!changed) {
-                continue;
-            }
-            this.documentChangesInInsertMode.set(uri, false);
-            let origText = this.documentText.get(uri);
-            if (origText == null) {
-                continue;
-            }
+        const uris = new Set([...this.documentPendingEdits.keys(), ...this.documentsRequireFullSync]);
+        for (const uri of uris) {
+            const edits = this.documentPendingEdits.get(uri) || [];
+            const fullSync = this.documentsRequireFullSync.has(uri);
+            this.documentPendingEdits.delete(uri);
+            this.documentsRequireFullSync.delete(uri);
             const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri);
             if (!document) {
                 continue;
             }
-            const eol = document.eol === vscode.EndOfLine.LF ? "\n" : "\r\n";
             const buf = this.uriToBuffer.get(uri);
             if (!buf) {
                 continue;
             }
-            let newText = document.getText();
-            this.documentText.set(uri, newText);
-
-            // workaround about problem changing last line when it's empty
-            // todo: it doesn't work if you just add empty line without changing it
-            // if (origText.slice(-1) === "\n" || origText.slice(-1) === "\r\n") {
-            // add few lines to the end otherwise diff may be wrong for a newline characters
-            origText += `${eol}end${eol}end`;
-            newText += `${eol}end${eol}end`;
-            // }
-            const diffPrepare = Utils.diffLineToChars(origText, newText);
-            const d = diff(diffPrepare.chars1, diffPrepare.chars2);
-            const ranges = Utils.prepareEditRangesFromDiff(d);
-            if (!ranges.length) {
+            const bufLinesRequests: [string, unknown[]][] = fullSync
+                ? this.getFullDocumentSyncRequests(uri, document, buf)
+                : this.getBufferEditRequests(uri, document, buf, edits);
+            this.documentText.set(uri, document.getText());
+            if (!bufLinesRequests.length) {
                 continue;
             }
-            // dmp.diff_charsToLines_(diff, diffPrepare.lineArray);
-            const bufLinesRequests: [string, unknown[]][] = [];
-            // each subsequent nvim_buf_set_lines uses the result of previous nvim_buf_set_lines so we must shift start/end
-            let lineDiffForNextChange = 0;
-            for (const range of ranges) {
-                let text = document.getText(new vscode.Range(range.newStart, 0, range.newEnd, 999999)).split(eol);
-                const start = range.start + lineDiffForNextChange;
-                let end = range.end + lineDiffForNextChange;
-                if (range.type === "removed") {
-                    text = [];
-                    end++;
-                    lineDiffForNextChange--;
-                } else if (range.type === "changed") {
-                    // workaround for the diff issue when you put newline after the first line
-                    // diff doesn't account this case
-                    if ((newText.slice(-1) === "\n" || newText.slice(-1) === "\r\n") && !origText.includes(eol)) {
-                        text.push("");
-                    }
-                    end++;
-                } else if (range.type === "added") {
-                    // prevent adding newline
-                    if (range.start === 0 && !origText) {
-                        end++;
-                    }
-                    lineDiffForNextChange++;
-                    // if (text.slice(-1)[0] === "") {
-                    //     text.pop();
-                    // }
-                    // text.push("\n");
-                }
-                bufLinesRequests.push(["nvim_buf_set_lines", [buf.id, start, end, false, text]]);
-                lineDiffForNextChange += range.newEnd - range.newStart - (range.end - range.start);
-            }
             const bufTick = await buf.changedtick;
+            this.logger.debug(
+                "buffer",
+                `Uploading ${uri} to buf: ${buf.id}, tick: ${bufTick}, full sync: ${fullSync}`,
+                bufLinesRequests,
+            );
             // const bufTick = this.skipBufferTickUpdate.get(buf.id) || 0;
             this.skipBufferTickUpdate.set(buf.id, bufTick + bufLinesRequests.length);
             requests.push(...bufLinesRequests);
@@ -2202,18 +2860,262 @@ export class NVIMPluginController implements vscode.Disposable {
         if (!requests.length) {
             return;
         }
-        await this.client.callAtomic(requests);
+        await this.callAtomic(requests);
+    };
+
+    /**
+     * Produce buffer edits from the document edits. With byte level sync changed lines are diffed against
+     * the text uploaded last time and only the changed text is sent by nvim_buf_set_text
+     */
+    private getBufferEditRequests(
+        uri: string,
+        document: vscode.TextDocument,
+        buf: NeovimBuffer,
+        edits: Utils.BufferLineEdit[],
+    ): [string, unknown[]][] {
+        const lineRequests: [string, unknown[]][] = edits.map(({ start, end, lines }) => [
+            "nvim_buf_set_lines",
+            [buf.id, start, end, false, lines],
+        ]);
+        const origText = this.documentText.get(uri);
+        if (this.bufferSyncBackend !== "bytes" || origText == null) {
+            return lineRequests;
+        }
+        const eol = document.eol === vscode.EndOfLine.LF ? "\n" : "\r\n";
+        const lines = origText.split(eol);
+        const textRequests: [string, unknown[]][] = [];
+        for (const { start, end, lines: newLines } of edits) {
+            if (end > lines.length) {
+                return lineRequests;
+            }
+            const textEdits = Utils.calculateTextEditsFromLines(
+                lines.slice(start, end),
+                newLines,
+                start,
+                end === lines.length,
+            );
+            // send from the last one, so positions of the previous edits are still valid
+            for (const { startLine, startChar, endLine, endChar, text } of textEdits.reverse()) {
+                const startCol = Utils.convertCharNumToByteNum(lines[startLine], startChar);
+                const endCol = Utils.convertCharNumToByteNum(lines[endLine], endChar);
+                textRequests.push([
+                    "nvim_buf_set_text",
+                    [buf.id, startLine, startCol, endLine, endCol, text.split("\n")],
+                ]);
+            }
+            lines.splice(start, end - start, ...newLines);
+        }
+        // the text uploaded last time is outdated if neovim changes were applied while having pending edits
+        if (lines.join(eol) !== document.getText()) {
+            return lineRequests;
+        }
+        return textRequests;
+    }
+
+    /**
+     * Produce buffer edits by diffing the whole document against the text uploaded last time.
+     * Slow for big documents, used only when document change log is incomplete
+     */
+    private getFullDocumentSyncRequests(
+        uri: string,
+        document: vscode.TextDocument,
+        buf: NeovimBuffer,
+    ): [string, unknown[]][] {
+        let origText = this.documentText.get(uri);
+        if (origText == null) {
+            return [];
+        }
+        const eol = document.eol === vscode.EndOfLine.LF ? "\n" : "\r\n";
+        let newText = document.getText();
+
+        // workaround about problem changing last line when it's empty
+        // todo: it doesn't work if you just add empty line without changing it
+        // if (origText.slice(-1) === "\n" || origText.slice(-1) === "\r\n") {
+        // add few lines to the end otherwise diff may be wrong for a newline characters
+        origText += `${eol}end${eol}end`;
+        newText += `${eol}end${eol}end`;
+        // }
+        const diffPrepare = Utils.diffLineToChars(origText, newText);
+        const d = diff(diffPrepare.chars1, diffPrepare.chars2);
+        const ranges = Utils.prepareEditRangesFromDiff(d);
+        // dmp.diff_charsToLines_(diff, diffPrepare.lineArray);
+        const bufLinesRequests: [string, unknown[]][] = [];
+        // each subsequent nvim_buf_set_lines uses the result of previous nvim_buf_set_lines so we must shift start/end
+        let lineDiffForNextChange = 0;
+        for (const range of ranges) {
+            let text = document.getText(new vscode.Range(range.newStart, 0, range.newEnd, 999999)).split(eol);
+            const start = range.start + lineDiffForNextChange;
+            let end = range.end + lineDiffForNextChange;
+            if (range.type === "removed") {
+                text = [];
+                end++;
+                lineDiffForNextChange--;
+            } else if (range.type === "changed") {
+                // workaround for the diff issue when you put newline after the first line
+                // diff doesn't account this case
+                if ((newText.slice(-1) === "\n" || newText.slice(-1) === "\r\n") && !origText.includes(eol)) {
+                    text.push("");
+                }
+                end++;
+            } else if (range.type === "added") {
+                // prevent adding newline
+                if (range.start === 0 && !origText) {
+                    end++;
+                }
+                lineDiffForNextChange++;
+                // if (text.slice(-1)[0] === "") {
+                //     text.pop();
+                // }
+                // text.push("\n");
+            }
+            bufLinesRequests.push(["nvim_buf_set_lines", [buf.id, start, end, false, text]]);
+            lineDiffForNextChange += range.newEnd - range.newStart - (range.end - range.start);
+        }
+        return bufLinesRequests;
+    }
+
+    private checkVisibleBuffersSync = async (): Promise<void> => {
+        for (const editor of vscode.window.visibleTextEditors) {
+            await this.checkBufferSync(editor);
+        }
+    };
+
+    /**
+     * Compare document text with the neovim buffer and offer to resync them if they're diverged
+     * @param confirm Recheck after small delay before reporting desync, edits may be still in flight
+     */
+    private checkBufferSync = async (editor: vscode.TextEditor, confirm = true): Promise<void> => {
+        const document = editor.document;
+        const uri = document.uri.toString();
+        const buf = this.uriToBuffer.get(uri);
+        if (!buf || !this.managedBufferIds.has(buf.id) || this.isInsertMode) {
+            return;
+        }
+        if (this.documentsWithDesyncWarning.has(uri)) {
+            return;
+        }
+        // there are changes not synced yet
+        if (
+            this.documentPendingEdits.has(uri) ||
+            this.documentsRequireFullSync.has(uri) ||
+            this.bufferEditQueue.size ||
+            (this.documentLastChangedVersion.get(uri) || 0) > document.version
+        ) {
+            return;
+        }
+        const version = document.version;
+        let tick: number;
+        let bufHash: string;
+        try {
+            // hashing is expensive for large buffers, skip it if neither side has changed since the last check
+            tick = await buf.changedtick;
+            const lastSyncedState = this.documentLastSyncedState.get(uri);
+            if (lastSyncedState && lastSyncedState[0] === tick && lastSyncedState[1] === version) {
+                return;
+            }
+            [tick, bufHash] = await this.client.callFunction("VSCodeGetBufferSyncState", [buf.id]);
+        } catch {
+            // buffer may be wiped out already
+            return;
+        }
+        // changed while were waiting for neovim
+        if (document.version !== version || this.isInsertMode) {
+            return;
+        }
+        // neovim joins buffer lines with \n
+        const text = document.getText().replace(/\r\n/g, "\n");
+        const docHash = crypto
+            .createHash("sha256")
+            .update(text, "utf8")
+            .digest("hex");
+        if (docHash === bufHash) {
+            this.documentLastSyncedState.set(uri, [tick, version]);
+            return;
+        }
+        if (confirm) {
+            await new Promise(res => setTimeout(res, 500));
+            await this.checkBufferSync(editor, false);
+            return;
+        }
+        if (this.documentsWithDesyncWarning.has(uri)) {
+            return;
+        }
+        this.documentsWithDesyncWarning.add(uri);
+        this.logger.warn("buffer", `${uri} is out of sync with buf: ${buf.id}, tick: ${tick}, version: ${version}`);
+        const fromVSCode = "Resync from VS Code";
+        const fromNeovim = "Resync from Neovim";
+        const answer = await vscode.window.showWarningMessage(
+            `vscode-neovim: ${path.basename(document.uri.path)} is out of sync with the neovim buffer`,
+            fromVSCode,
+            fromNeovim,
+        );
+        this.documentsWithDesyncWarning.delete(uri);
+        if (answer === fromVSCode) {
+            await this.resyncBufferFromDocument(editor);
+        } else if (answer === fromNeovim) {
+            await this.resyncDocumentFromBuffer(editor);
+        }
+    };
+
+    /**
+     * Rebuild neovim buffer from the document text. Goes through nvim_buf_set_lines so the buffer undo history is kept
+     */
+    private resyncBufferFromDocument = async (editor: vscode.TextEditor): Promise<void> => {
+        const uri = editor.document.uri.toString();
+        const buf = this.uriToBuffer.get(uri);
+        const winId = editor.viewColumn && this.editorColumnIdToWinId.get(editor.viewColumn);
+        if (!buf || !winId) {
+            return;
+        }
+        this.documentPendingEdits.delete(uri);
+        this.documentsRequireFullSync.delete(uri);
+        this.documentText.set(uri, editor.document.getText());
+        const bufTick = await buf.changedtick;
+        this.skipBufferTickUpdate.set(buf.id, bufTick + 1);
+        await this.callAtomic(this.getBufferContentRequests(editor, winId, buf));
+    };
+
+    /**
+     * Replace the document text by neovim buffer content. Cursor position is kept
+     */
+    private resyncDocumentFromBuffer = async (editor: vscode.TextEditor): Promise<void> => {
+        const uri = editor.document.uri.toString();
+        const buf = this.uriToBuffer.get(uri);
+        if (!buf) {
+            return;
+        }
+        const lines = await buf.lines;
+        const document = editor.document;
+        const eol = document.eol === vscode.EndOfLine.LF ? "\n" : "\r\n";
+        const selections = editor.selections;
+        this.documentLastChangedVersion.set(uri, document.version + 1);
+        const success = await editor.edit(builder =>
+            builder.replace(
+                new vscode.Range(new vscode.Position(0, 0), document.lineAt(document.lineCount - 1).range.end),
+                lines.join(eol),
+            ),
+        );
+        if (!success) {
+            return;
+        }
+        this.documentPendingEdits.delete(uri);
+        this.documentsRequireFullSync.delete(uri);
+        this.documentText.set(uri, document.getText());
+        editor.selections = selections.map(
+            sel => new vscode.Selection(document.validatePosition(sel.anchor), document.validatePosition(sel.active)),
+        );
     };
 
     private onEscapeKeyCommand = async (): Promise<void> => {
         if (!this.isInit) {
             return;
         }
+        this.traceRecorder.record({ type: "escape" });
         if (this.isInsertMode) {
             this.leaveMultipleCursorsForVisualMode = false;
-            await this.uploadDocumentChangesToNeovim();
+            await this.flushDocumentChanges();
         }
-        await this.client.input("<Esc>");
+        await this.sendTypedKeys("<Esc>");
         // const buf = await this.client.buffer;
         // const lines = await buf.lines;
         // console.log("====LINES====");
@@ -2222,32 +3124,73 @@ export class NVIMPluginController implements vscode.Disposable {
         // console.log("====END====");
     };
 
-    private showCmdOnTimer = (initialContent: string, firstc: string, prompt: string): void => {
+    private showCmdOnTimer = (
+        initialContent: string,
+        firstc: string,
+        prompt: string,
+        pos: number,
+        level: number,
+    ): void => {
         if (!this.commandLine) {
-            this.commandLine = new CommandLineController(this.client, {
+            this.commandLine = this.createCommandLine();
+        }
+        this.commandLine.show(initialContent, firstc, prompt, pos, level);
+        this.commandLine.setBlockLines(this.cmdlineBlockLines);
+        this.cmdlineTimer = undefined;
+    };
+
+    private createCommandLine(): CommandLineController {
+        return new CommandLineController(
+            this.client,
+            {
                 onAccepted: this.onCmdAccept,
                 onCanceled: this.onCmdCancel,
                 onChanged: this.onCmdChange,
-            });
+            },
+            this.cmdlineCompletionDelay,
+        );
+    }
+
+    /**
+     * Open command line window as the document with the history, the last line is empty like in vim.
+     * The buffer is set up in initBuffer to execute the line by <CR>. The history is written to a temporary file,
+     * unlike untitled documents it can be closed without asking to save until it's modified
+     */
+    private async openCmdwin(type: string): Promise<void> {
+        const history: string[] = await this.client.callFunction("VSCodeGetHistory", [type]);
+        const uri = vscode.Uri.file(
+            path.join(os.tmpdir(), `vscode-neovim-cmdwin-${Date.now()}${type === ":" ? ".vim" : ".txt"}`),
+        );
+        await vscode.workspace.fs.writeFile(uri, Buffer.from([...history.reverse(), ""].join("\n"), "utf8"));
+        const doc = await vscode.workspace.openTextDocument(uri);
+        this.cmdwinDocuments.set(doc.uri.toString(), type);
+        const editor = await vscode.window.showTextDocument(doc, {
+            viewColumn: vscode.ViewColumn.Active,
+            preview: false,
+        });
+        const lastLine = doc.lineCount - 1;
+        editor.selections = [new vscode.Selection(lastLine, 0, lastLine, 0)];
+    }
+
+    private updateSearchPreview = async (pattern: string, backward: boolean): Promise<void> => {
+        const counter = await this.searchPreview.update(pattern, backward);
+        if (this.commandLine) {
+            this.commandLine.setTitleInfo(counter);
         }
-        this.commandLine.show(initialContent, firstc, prompt);
-        this.cmdlineTimer = undefined;
     };
 
-    private onCmdChange = async (e: string, complete: boolean): Promise<void> => {
-        let keys = "<C-u>" + this.normalizeString(e);
-        if (complete) {
-            keys += "<Tab>";
-        }
-        await this.client.input(keys);
+    private onCmdChange = async (keys: string): Promise<void> => {
+        await this.inputKeys(keys);
     };
 
     private onCmdCancel = async (): Promise<void> => {
-        await this.client.input("<Esc>");
+        this.substitutePreview.clear();
+        this.searchPreview.clear(true);
+        await this.inputKeys("<Esc>");
     };
 
     private onCmdAccept = (): void => {
-        this.client.input("<CR>");
+        this.inputKeys("<CR>");
     };
 
     /// SCROLL COMMANDS ///
@@ -1,6 +1,7 @@
 import * as vscode from "vscode";
 
 import { NVIMPluginController } from "./controller";
+import { Logger, LogLevel } from "./logger";
 
 const EXT_NAME = "vscode-neovim";
 const EXT_ID = `asvetliakov.${EXT_NAME}`;
@@ -10,35 +11,62 @@ const EXT_ID = `asvetliakov.${EXT_NAME}`;
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
     const ext = vscode.extensions.getExtension(EXT_ID)!;
     const settings = vscode.workspace.getConfiguration(EXT_NAME);
-    const neovimPath = process.env.NEOVIM_PATH || settings.get("neovimPath");
-    if (!neovimPath) {
+    const neovimPath = process.env.NEOVIM_PATH || settings.get("neovimPath", "");
+    const neovimServerAddress = settings.get("neovimServerAddress", "");
+    if (!neovimPath && !neovimServerAddress) {
         vscode.window.showErrorMessage("Neovim: configure the path to neovim and restart the editor");
         return;
     }
-    const highlightConfIgnore = settings.get("highlightGroups.ignoreHighlights");
-    const highlightConfHighlights = settings.get("highlightGroups.highlights");
-    const highlightConfUnknown = settings.get("highlightGroups.unknownHighlight");
-    const mouseVisualSelection = settings.get("mouseSelectionStartVisualMode", false);
     const useCtrlKeysNormalMode = settings.get("useCtrlKeysForNormalMode", true);
     const useCtrlKeysInsertMode = settings.get("useCtrlKeysForInsertMode", true);
-    const useWsl = settings.get("useWSL", false);
-    const customInit = settings.get("neovimInitPath", "");
+    // logger outlives the controller to keep the log when neovim is restarted
+    const logger = new Logger(settings.get<LogLevel>("logLevel", "none"), settings.get("logRedrawEvents", []));
+    context.subscriptions.push(logger);
     vscode.commands.executeCommand("setContext", "neovim.ctrlKeysNormal", useCtrlKeysNormalMode);
     vscode.commands.executeCommand("setContext", "neovim.ctrlKeysInsert", useCtrlKeysInsertMode);
-    const plugin = new NVIMPluginController(
-        neovimPath,
-        context.extensionPath,
-        {
-            highlights: highlightConfHighlights,
-            ignoreHighlights: highlightConfIgnore,
-            unknownHighlight: highlightConfUnknown,
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        } as any,
-        mouseVisualSelection,
-        ext.extensionKind === vscode.ExtensionKind.Workspace ? false : useWsl,
-        customInit,
+    // settings are read again on restart, so changed settings are applied without reloading the window
+    const createPlugin = (): NVIMPluginController => {
+        const pluginSettings = vscode.workspace.getConfiguration(EXT_NAME);
+        const useWsl = pluginSettings.get("useWSL", false);
+        return new NVIMPluginController(
+            process.env.NEOVIM_PATH || pluginSettings.get("neovimPath", ""),
+            context.extensionPath,
+            {
+                highlights: pluginSettings.get("highlightGroups.highlights"),
+                ignoreHighlights: pluginSettings.get("highlightGroups.ignoreHighlights"),
+                unknownHighlight: pluginSettings.get("highlightGroups.unknownHighlight"),
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            } as any,
+            pluginSettings.get("mouseSelectionStartVisualMode", false),
+            ext.extensionKind === vscode.ExtensionKind.Workspace ? false : useWsl,
+            pluginSettings.get("neovimInitPath", ""),
+            pluginSettings.get("bufferSyncCheckInterval", 5000),
+            pluginSettings.get<"lines" | "bytes">("bufferSyncBackend", "lines"),
+            pluginSettings.get("neovimServerAddress", ""),
+            logger,
+            {
+                errorNotificationKinds: pluginSettings.get("errorNotificationKinds", []),
+                warningNotificationKinds: pluginSettings.get("warningNotificationKinds", []),
+            },
+            pluginSettings.get("cmdlineCompletionDelay", 1500),
+            {
+                enabled: pluginSettings.get("modeIndicator.enabled", false),
+                modes: pluginSettings.get("modeIndicator.modes", {}),
+                tintStatusBar: pluginSettings.get("modeIndicator.tintStatusBar", false),
+            },
+            pluginSettings.get("renderStatusLine", false),
+        );
+    };
+    let plugin = createPlugin();
+    context.subscriptions.push({ dispose: () => plugin.dispose() });
+    context.subscriptions.push(
+        vscode.commands.registerCommand("vscode-neovim.restart", async () => {
+            // start from the clean state. init() creates neovim windows and attaches visible editors again
+            plugin.dispose();
+            plugin = createPlugin();
+            await plugin.init();
+        }),
     );
-    context.subscriptions.push(plugin);
     await plugin.init();
 }
 
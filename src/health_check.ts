@@ -0,0 +1,346 @@
+import { spawn, execFile } from "child_process";
+import fs from "fs";
+import path from "path";
+
+import vscode from "vscode";
+import { NeovimClient } from "neovim";
+
+export interface HealthCheckConfiguration {
+    neovimPath: string;
+    extensionPath: string;
+    useWsl: boolean;
+    customInit: string;
+    /**
+     * Set when attached to already running neovim. Startup & WSL checks are skipped in this case
+     */
+    neovimServerAddress: string;
+}
+
+type HealthCheckStatus = "ok" | "warning" | "error";
+
+interface HealthCheckResult {
+    name: string;
+    status: HealthCheckStatus;
+    details: string[];
+}
+
+interface NeovimApiInfo {
+    version: { major: number; minor: number; patch: number; api_level: number };
+    ui_options?: string[];
+}
+
+const WSL_PATH = "C:\\Windows\\system32\\wsl.exe";
+
+const MIN_NEOVIM_VERSION: [number, number] = [0, 4];
+
+/**
+ * UI extensions passed to nvim_ui_attach() by the controller
+ */
+const REQUIRED_UI_OPTIONS = [
+    "ext_cmdline",
+    "ext_linegrid",
+    "ext_hlstate",
+    "ext_messages",
+    "ext_multigrid",
+    "ext_popupmenu",
+    "ext_tabline",
+    "ext_wildmenu",
+];
+
+/**
+ * Scripts sourced by vscode-neovim.vim & the controller
+ */
+const BUNDLED_SCRIPTS = [
+    "vscode-neovim.vim",
+    "vscode-options.vim",
+    "vscode-insert.vim",
+    "vscode-scrolling.vim",
+    "vscode-jumplist.vim",
+    "vscode-code-actions.vim",
+    "vscode-file-commands.vim",
+    "vscode-tab-commands.vim",
+    "vscode-window-commands.vim",
+    "vscode-buffer-bytes.lua",
+    "vim-altercmd/plugin/altercmd.vim",
+];
+
+// neovim startup slower than this is reported as warning
+const SLOW_STARTUP_MS = 1000;
+// give up on unresponsive neovim or wsl after this time
+const CHECK_TIMEOUT_MS = 10000;
+
+const STATUS_LABELS: { [key in HealthCheckStatus]: string } = {
+    ok: "OK",
+    warning: "WARNING",
+    error: "ERROR",
+};
+
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+    return new Promise((res, rej) => {
+        const timer = setTimeout(
+            () => rej(new Error(`Neovim didn't respond in ${CHECK_TIMEOUT_MS}ms`)),
+            CHECK_TIMEOUT_MS,
+        );
+        promise.then(
+            result => {
+                clearTimeout(timer);
+                res(result);
+            },
+            err => {
+                clearTimeout(timer);
+                rej(err);
+            },
+        );
+    });
+}
+
+function execWithTimeout(file: string, args: string[]): Promise<{ stdout: string; stderr: string }> {
+    return new Promise((res, rej) => {
+        execFile(file, args, { timeout: CHECK_TIMEOUT_MS }, (err, stdout, stderr) => {
+            if (err) {
+                rej(err);
+            } else {
+                res({ stdout, stderr });
+            }
+        });
+    });
+}
+
+export class HealthCheckController implements vscode.Disposable {
+    private client: NeovimClient;
+
+    private conf: HealthCheckConfiguration;
+
+    private disposables: vscode.Disposable[] = [];
+
+    public constructor(client: NeovimClient, conf: HealthCheckConfiguration) {
+        this.client = client;
+        this.conf = conf;
+        this.disposables.push(vscode.commands.registerCommand("vscode-neovim.checkHealth", this.checkHealth));
+    }
+
+    public dispose(): void {
+        for (const d of this.disposables) {
+            d.dispose();
+        }
+    }
+
+    /**
+     * Run quick checks which don't require spawning additional processes. Problems are reported by a notification
+     */
+    public async runStartupChecks(): Promise<void> {
+        const results = await this.runNeovimChecks();
+        results.push(this.checkBundledScripts());
+        const problems = results.filter(r => r.status !== "ok");
+        if (!problems.length) {
+            return;
+        }
+        const message = `vscode-neovim: ${problems.map(p => `${p.name}: ${p.details[0]}`).join(", ")}`;
+        const show = problems.some(p => p.status === "error")
+            ? vscode.window.showErrorMessage
+            : vscode.window.showWarningMessage;
+        // don't wait for the user action, it would block init
+        show(message, "Show health report").then(action => {
+            if (action) {
+                this.checkHealth();
+            }
+        });
+    }
+
+    private checkHealth = async (): Promise<void> => {
+        const results = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: "vscode-neovim: Checking health" },
+            async () => {
+                const results = await this.runNeovimChecks();
+                results.push(this.checkBundledScripts());
+                results.push(await this.checkLoadedScripts());
+                if (this.conf.neovimServerAddress) {
+                    results.push({
+                        name: "Neovim startup",
+                        status: "ok",
+                        details: [`Attached to neovim at ${this.conf.neovimServerAddress}, startup check skipped`],
+                    });
+                } else {
+                    if (this.conf.useWsl) {
+                        results.push(await this.checkWslPathTranslation());
+                    }
+                    results.push(await this.checkStartup());
+                }
+                return results;
+            },
+        );
+        const doc = await vscode.workspace.openTextDocument({
+            language: "markdown",
+            content: this.renderReport(results),
+        });
+        await vscode.window.showTextDocument(doc);
+    };
+
+    private async runNeovimChecks(): Promise<HealthCheckResult[]> {
+        let apiInfo: NeovimApiInfo;
+        try {
+            [, apiInfo] = await withTimeout(
+                this.client.request("nvim_get_api_info", []) as Promise<[number, NeovimApiInfo]>,
+            );
+        } catch (e) {
+            return [
+                { name: "Neovim version", status: "error", details: [`Unable to get neovim API info: ${e.message}`] },
+            ];
+        }
+        return [this.checkVersion(apiInfo), this.checkUiOptions(apiInfo)];
+    }
+
+    private checkVersion(apiInfo: NeovimApiInfo): HealthCheckResult {
+        const { major, minor, patch, api_level: apiLevel } = apiInfo.version;
+        const version = `${major}.${minor}.${patch}`;
+        const [minMajor, minMinor] = MIN_NEOVIM_VERSION;
+        if (major < minMajor || (major === minMajor && minor < minMinor)) {
+            return {
+                name: "Neovim version",
+                status: "error",
+                details: [`Neovim ${version} is too old, ${minMajor}.${minMinor}.0 or greater is required`],
+            };
+        }
+        return { name: "Neovim version", status: "ok", details: [`Neovim ${version}, API level ${apiLevel}`] };
+    }
+
+    private checkUiOptions(apiInfo: NeovimApiInfo): HealthCheckResult {
+        if (!apiInfo.ui_options) {
+            return {
+                name: "UI extensions",
+                status: "warning",
+                details: ["Neovim doesn't report supported UI extensions"],
+            };
+        }
+        const missing = REQUIRED_UI_OPTIONS.filter(o => !apiInfo.ui_options!.includes(o));
+        if (missing.length) {
+            return {
+                name: "UI extensions",
+                status: "error",
+                details: [`Neovim doesn't support required UI extensions: ${missing.join(", ")}`],
+            };
+        }
+        return { name: "UI extensions", status: "ok", details: [`Supported: ${REQUIRED_UI_OPTIONS.join(", ")}`] };
+    }
+
+    private checkBundledScripts(): HealthCheckResult {
+        const missing = BUNDLED_SCRIPTS.filter(
+            script => !fs.existsSync(path.join(this.conf.extensionPath, "vim", script)),
+        );
+        if (missing.length) {
+            return {
+                name: "Bundled scripts",
+                status: "error",
+                details: [`Missing scripts, try to reinstall the extension: ${missing.join(", ")}`],
+            };
+        }
+        return { name: "Bundled scripts", status: "ok", details: [path.join(this.conf.extensionPath, "vim")] };
+    }
+
+    /**
+     * Check if the support script was sourced by neovim
+     */
+    private async checkLoadedScripts(): Promise<HealthCheckResult> {
+        try {
+            const loaded = await withTimeout(this.client.eval("exists('g:vscode') && exists('*VSCodeNotify')"));
+            if (!loaded) {
+                return {
+                    name: "Loaded scripts",
+                    status: "error",
+                    details: ["vscode-neovim.vim is not loaded in neovim"],
+                };
+            }
+            return { name: "Loaded scripts", status: "ok", details: ["vscode-neovim.vim is loaded"] };
+        } catch (e) {
+            return { name: "Loaded scripts", status: "error", details: [e.message] };
+        }
+    }
+
+    /**
+     * Neovim with useWSL is started by wsl.exe and sources the support script by the path translated by wslpath
+     */
+    private async checkWslPathTranslation(): Promise<HealthCheckResult> {
+        const scriptPath = path.join(this.conf.extensionPath, "vim", "vscode-neovim.vim");
+        try {
+            const { stdout } = await execWithTimeout(WSL_PATH, ["wslpath", scriptPath]);
+            const linuxPath = stdout.trim();
+            await execWithTimeout(WSL_PATH, ["test", "-f", linuxPath]);
+            await execWithTimeout(WSL_PATH, ["test", "-x", this.conf.neovimPath]);
+            return { name: "WSL", status: "ok", details: [`${scriptPath} -> ${linuxPath}`] };
+        } catch (e) {
+            return {
+                name: "WSL",
+                status: "error",
+                details: [
+                    "Unable to translate the script path or neovim is not executable in WSL. " +
+                        "Make sure wslpath is available and neovimPath is a linux path",
+                    e.message,
+                ],
+            };
+        }
+    }
+
+    /**
+     * Start headless neovim with the same init file to measure the startup time and collect errors.
+     * The support script isn't sourced since it requires the extension channel, only g:vscode is set for user config
+     */
+    private async checkStartup(): Promise<HealthCheckResult> {
+        const args = ["-N", "--headless", "--cmd", "let g:vscode = 1"];
+        if (this.conf.customInit) {
+            args.push("-u", this.conf.customInit);
+        }
+        args.push("-c", "qa!");
+        if (this.conf.useWsl) {
+            args.unshift(this.conf.neovimPath);
+        }
+        const start = Date.now();
+        let output = "";
+        try {
+            const code = await new Promise<number | null>((res, rej) => {
+                const proc = spawn(this.conf.useWsl ? WSL_PATH : this.conf.neovimPath, args, {});
+                const timer = setTimeout(() => {
+                    proc.kill();
+                    rej(new Error(`Neovim didn't exit in ${CHECK_TIMEOUT_MS}ms`));
+                }, CHECK_TIMEOUT_MS);
+                proc.stdout.on("data", data => (output += data.toString()));
+                proc.stderr.on("data", data => (output += data.toString()));
+                proc.on("error", err => {
+                    clearTimeout(timer);
+                    rej(err);
+                });
+                proc.on("exit", exitCode => {
+                    clearTimeout(timer);
+                    res(exitCode);
+                });
+            });
+            const time = Date.now() - start;
+            const errors = output
+                .split(/\r?\n/)
+                .map(l => l.trim())
+                .filter(l => !!l);
+            const details = [
+                `Started and exited in ${time}ms${this.conf.customInit ? ` with ${this.conf.customInit}` : ""}`,
+            ];
+            if (code) {
+                details.push(`Exit code: ${code}`);
+            }
+            details.push(...errors);
+            return {
+                name: "Neovim startup",
+                status: errors.length || code ? "error" : time > SLOW_STARTUP_MS ? "warning" : "ok",
+                details,
+            };
+        } catch (e) {
+            return { name: "Neovim startup", status: "error", details: [`Unable to start neovim: ${e.message}`] };
+        }
+    }
+
+    private renderReport(results: HealthCheckResult[]): string {
+        const lines = ["# vscode-neovim health check", ""];
+        for (const { name, status, details } of results) {
+            lines.push(`## ${name}`, "", `**${STATUS_LABELS[status]}**`, "");
+            lines.push(...details.map(d => `- ${d}`), "");
+        }
+        return lines.join("\n");
+    }
+}
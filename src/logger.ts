@@ -0,0 +1,106 @@
+import { Disposable, OutputChannel, window } from "vscode";
+
+export type LogLevel = "none" | "error" | "warn" | "info" | "debug";
+
+const LOG_LEVEL_PRIORITY: { [key in LogLevel]: number } = {
+    none: 0,
+    error: 1,
+    warn: 2,
+    info: 3,
+    debug: 4,
+};
+
+function stringify(data: unknown): string {
+    if (typeof data === "string") {
+        return data;
+    }
+    try {
+        return JSON.stringify(data);
+    } catch {
+        // circular structures, e.g. neovim client objects
+        return String(data);
+    }
+}
+
+/**
+ * Logs into the "Neovim" output channel. The channel is created on the first write,
+ * so nothing is created when logging is disabled
+ */
+export class Logger implements Disposable {
+    private channel?: OutputChannel;
+
+    private level: LogLevel;
+
+    /**
+     * Redraw event names to log. All events are logged if empty
+     */
+    private redrawEvents: Set<string>;
+
+    public constructor(level: LogLevel, redrawEvents: string[] = []) {
+        this.level = level;
+        this.redrawEvents = new Set(redrawEvents);
+    }
+
+    public isEnabled(level: LogLevel): boolean {
+        return level !== "none" && LOG_LEVEL_PRIORITY[level] <= LOG_LEVEL_PRIORITY[this.level];
+    }
+
+    public error(scope: string, msg: string, ...data: unknown[]): void {
+        this.log("error", scope, msg, data);
+    }
+
+    public warn(scope: string, msg: string, ...data: unknown[]): void {
+        this.log("warn", scope, msg, data);
+    }
+
+    public info(scope: string, msg: string, ...data: unknown[]): void {
+        this.log("info", scope, msg, data);
+    }
+
+    public debug(scope: string, msg: string, ...data: unknown[]): void {
+        this.log("debug", scope, msg, data);
+    }
+
+    /**
+     * Log redraw event. Logged with debug level when the event passes the filter
+     */
+    public redraw(name: string, args: unknown[]): void {
+        if (!this.isEnabled("debug") || (this.redrawEvents.size && !this.redrawEvents.has(name))) {
+            return;
+        }
+        this.write("debug", "redraw", name, args);
+    }
+
+    /**
+     * Write regardless of the log level and reveal the output channel. Used for the explicitly requested output
+     */
+    public dump(scope: string, msg: string, ...data: unknown[]): void {
+        this.write("info", scope, msg, data);
+        this.getChannel().show(true);
+    }
+
+    public dispose(): void {
+        if (this.channel) {
+            this.channel.dispose();
+        }
+    }
+
+    private log(level: LogLevel, scope: string, msg: string, data: unknown[]): void {
+        if (!this.isEnabled(level)) {
+            return;
+        }
+        this.write(level, scope, msg, data);
+    }
+
+    private write(level: LogLevel, scope: string, msg: string, data: unknown[]): void {
+        const parts = [new Date().toISOString(), `[${level}]`, `[${scope}]`, msg, ...data.map(stringify)];
+        this.getChannel().appendLine(parts.join(" "));
+    }
+
+    private getChannel(): OutputChannel {
+        if (!this.channel) {
+            this.channel = window.createOutputChannel("Neovim");
+        }
+        return this.channel;
+    }
+}
@@ -0,0 +1,195 @@
+import { Disposable, window, commands, WebviewPanel, ViewColumn } from "vscode";
+
+/**
+ * Message from msg_show/msg_history_show with the chunks joined
+ */
+export interface NeovimMessage {
+    /**
+     * Neovim message kind, e.g. emsg, echo, echomsg, wmsg. Empty for the command output such as :ls
+     */
+    kind: string;
+    text: string;
+    /**
+     * The message replaces the previous one, e.g. for the search count
+     */
+    replaceLast?: boolean;
+}
+
+export interface MessagesConfiguration {
+    /**
+     * Message kinds displayed as error notifications instead of the status bar
+     */
+    errorNotificationKinds: string[];
+    /**
+     * Message kinds displayed as warning notifications instead of the status bar
+     */
+    warningNotificationKinds: string[];
+}
+
+/**
+ * Max messages to keep in the log
+ */
+const MAX_LOG_SIZE = 1000;
+
+const ERROR_KINDS = ["emsg", "echoerr", "lua_error", "rpc_error"];
+
+const WARNING_KINDS = ["wmsg"];
+
+function escapeHtml(str: string): string {
+    return str
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+function getMessageClass(kind: string): string {
+    if (ERROR_KINDS.includes(kind)) {
+        return "error";
+    }
+    if (WARNING_KINDS.includes(kind)) {
+        return "warning";
+    }
+    return "";
+}
+
+/**
+ * Keeps every neovim message with its kind and shows the long output, the message log and :messages in the webview panel
+ */
+export class MessagesController implements Disposable {
+    /**
+     * All messages received in this session
+     */
+    private log: NeovimMessage[] = [];
+
+    private panel?: WebviewPanel;
+
+    private disposables: Disposable[] = [];
+
+    private configuration: MessagesConfiguration;
+
+    /**
+     * Notifications which are not closed yet, by kind & text. Identical messages are not notified again until closed
+     */
+    private visibleNotifications: Set<string> = new Set();
+
+    public constructor(configuration: MessagesConfiguration) {
+        this.configuration = configuration;
+        this.disposables.push(commands.registerCommand("vscode-neovim.showMessages", this.showLog));
+    }
+
+    /**
+     * Add messages from msg_show. Configured kinds are displayed as notifications, multi-line output is displayed in the panel
+     * @returns Messages to display in the status bar
+     */
+    public addMessages(messages: NeovimMessage[]): NeovimMessage[] {
+        const added: NeovimMessage[] = [];
+        for (const message of messages) {
+            if (message.replaceLast) {
+                // the previous message is either from this batch or from the log
+                this.log.pop();
+                added.pop();
+            }
+            this.log.push(message);
+            added.push(message);
+        }
+        if (this.log.length > MAX_LOG_SIZE) {
+            this.log.splice(0, this.log.length - MAX_LOG_SIZE);
+        }
+        const statusMessages = added.filter(m => !this.notify(m));
+        if (statusMessages.some(m => m.text.includes("\n"))) {
+            this.showPanel("Neovim Output", statusMessages);
+        }
+        return statusMessages;
+    }
+
+    /**
+     * msg_history_show, i.e. :messages
+     */
+    public showHistory(messages: NeovimMessage[]): void {
+        this.showPanel("Neovim :messages", messages);
+    }
+
+    public dispose(): void {
+        for (const d of this.disposables) {
+            d.dispose();
+        }
+        if (this.panel) {
+            this.panel.dispose();
+        }
+    }
+
+    /**
+     * @returns true if the message kind is displayed as notification
+     */
+    private notify(message: NeovimMessage): boolean {
+        const isError = this.configuration.errorNotificationKinds.includes(message.kind);
+        if (!isError && !this.configuration.warningNotificationKinds.includes(message.kind)) {
+            return false;
+        }
+        const key = `${message.kind}:${message.text}`;
+        if (!this.visibleNotifications.has(key)) {
+            this.visibleNotifications.add(key);
+            const show = isError ? window.showErrorMessage : window.showWarningMessage;
+            show(message.text).then(() => this.visibleNotifications.delete(key));
+        }
+        return true;
+    }
+
+    private showLog = (): void => {
+        this.showPanel("Neovim Messages Log", this.log);
+    };
+
+    private showPanel(title: string, messages: NeovimMessage[]): void {
+        if (!this.panel) {
+            // open after the last editor group, new group beside the active editor would be between vim tab pages
+            const lastColumn = Math.max(ViewColumn.One, ...window.visibleTextEditors.map(e => e.viewColumn || 0));
+            this.panel = window.createWebviewPanel(
+                "vscode-neovim.messages",
+                title,
+                { viewColumn: lastColumn + 1, preserveFocus: true },
+                { enableFindWidget: true },
+            );
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+            });
+        } else {
+            this.panel.title = title;
+            this.panel.reveal(undefined, true);
+        }
+        this.panel.webview.html = this.getHtml(messages);
+    }
+
+    private getHtml(messages: NeovimMessage[]): string {
+        const items = messages
+            .map(
+                m =>
+                    `<pre class="${getMessageClass(m.kind)}" title="${escapeHtml(m.kind)}">${escapeHtml(m.text)}</pre>`,
+            )
+            .join("\n");
+        return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+    <style>
+        pre {
+            margin: 0 0 4px 0;
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            white-space: pre-wrap;
+        }
+        .error {
+            color: var(--vscode-errorForeground);
+        }
+        .warning {
+            color: var(--vscode-editorWarning-foreground);
+        }
+    </style>
+</head>
+<body>
+${items}
+</body>
+</html>`;
+    }
+}
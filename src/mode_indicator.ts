@@ -0,0 +1,188 @@
+import { Disposable, window, workspace, StatusBarItem, StatusBarAlignment, ConfigurationTarget } from "vscode";
+
+/**
+ * Mode indicator text & colors for one mode
+ */
+export interface ModeIndicatorStyle {
+    text?: string;
+    /**
+     * Text color of the indicator
+     */
+    color?: string;
+    /**
+     * Status bar background when status bar tinting is enabled
+     */
+    background?: string;
+}
+
+export interface ModeIndicatorConfiguration {
+    enabled: boolean;
+    /**
+     * Styles keyed by the indicator mode, merged with the default styles
+     */
+    modes: { [mode: string]: ModeIndicatorStyle };
+    /**
+     * Change the status bar background through the workspace workbench.colorCustomizations
+     */
+    tintStatusBar: boolean;
+}
+
+export type IndicatorMode =
+    | "normal"
+    | "insert"
+    | "visual"
+    | "visualLine"
+    | "visualBlock"
+    | "replace"
+    | "operatorPending"
+    | "cmdline";
+
+const DEFAULT_STYLES: { [mode in IndicatorMode]: ModeIndicatorStyle } = {
+    normal: { text: "NORMAL" },
+    insert: { text: "INSERT", background: "#1d5c3f" },
+    visual: { text: "VISUAL", background: "#6a3d80" },
+    visualLine: { text: "V-LINE", background: "#6a3d80" },
+    visualBlock: { text: "V-BLOCK", background: "#6a3d80" },
+    replace: { text: "REPLACE", background: "#8f3434" },
+    operatorPending: { text: "OP-PENDING" },
+    cmdline: { text: "CMDLINE", background: "#7a5c12" },
+};
+
+const STATUS_BAR_BACKGROUND_KEYS = ["statusBar.background", "statusBar.noFolderBackground"];
+
+/**
+ * Map neovim mode name from mode_info_set (and mode() result for visual modes) to the indicator mode
+ */
+export function getIndicatorMode(modeName: string, vimMode = ""): IndicatorMode | undefined {
+    switch (modeName) {
+        case "normal":
+            return "normal";
+        case "insert":
+            return "insert";
+        case "replace":
+            return "replace";
+        case "operator":
+            return "operatorPending";
+        case "visual":
+        case "visual_select": {
+            const modeChar = vimMode.charAt(0);
+            if (modeChar === "V" || modeChar === "S") {
+                return "visualLine";
+            }
+            if (modeChar === "\x16" || modeChar === "\x13") {
+                return "visualBlock";
+            }
+            return "visual";
+        }
+        case "cmdline_normal":
+        case "cmdline_insert":
+        case "cmdline_replace":
+            return "cmdline";
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Status bar indicator of the current neovim mode. Optionally tints the whole status bar with the mode color
+ */
+export class ModeIndicatorController implements Disposable {
+    private configuration: ModeIndicatorConfiguration;
+
+    private item: StatusBarItem;
+
+    private currentMode?: IndicatorMode;
+
+    /**
+     * Status bar background currently written into workbench.colorCustomizations. Undefined if not tinted
+     */
+    private currentBackground?: string;
+
+    /**
+     * User status bar colors to restore when the tint is removed
+     */
+    private originalColors?: { [key: string]: string | undefined };
+
+    public constructor(configuration: ModeIndicatorConfiguration) {
+        this.configuration = configuration;
+        this.item = window.createStatusBarItem(StatusBarAlignment.Left, 12);
+    }
+
+    public update(mode: IndicatorMode | undefined): void {
+        if (!this.configuration.enabled || !mode || mode === this.currentMode) {
+            return;
+        }
+        this.currentMode = mode;
+        const style = { ...DEFAULT_STYLES[mode], ...this.configuration.modes[mode] };
+        this.item.text = style.text || "";
+        this.item.color = style.color;
+        if (style.text) {
+            this.item.show();
+        } else {
+            this.item.hide();
+        }
+        if (this.configuration.tintStatusBar) {
+            this.tintStatusBar(style.background);
+        }
+    }
+
+    public dispose(): void {
+        this.item.dispose();
+        if (this.currentBackground) {
+            this.tintStatusBar(undefined);
+        }
+    }
+
+    /**
+     * The tint is written into the workspace settings, so it doesn't leak into other windows and isn't synced
+     */
+    private tintStatusBar(background: string | undefined): void {
+        // the first call always checks the settings to remove the tint left by a crashed session
+        if ((this.originalColors && background === this.currentBackground) || !workspace.workspaceFolders) {
+            return;
+        }
+        this.currentBackground = background;
+        const config = workspace.getConfiguration("workbench");
+        const inspect = config.inspect<{ [key: string]: string }>("colorCustomizations");
+        const customizations = { ...((inspect && inspect.workspaceValue) || {}) };
+        const oldCustomizations = JSON.stringify(customizations);
+        // taken once, the configuration may still have the previous tint while the update is in progress
+        if (!this.originalColors) {
+            // the tint left by a crashed session isn't the user color
+            const tintColors = this.getTintColors();
+            this.originalColors = {};
+            for (const key of STATUS_BAR_BACKGROUND_KEYS) {
+                const color = customizations[key];
+                this.originalColors[key] = color && !tintColors.has(color.toLowerCase()) ? color : undefined;
+            }
+        }
+        const originalColors = this.originalColors;
+        for (const key of STATUS_BAR_BACKGROUND_KEYS) {
+            const color = background || originalColors[key];
+            if (color) {
+                customizations[key] = color;
+            } else {
+                delete customizations[key];
+            }
+        }
+        if (JSON.stringify(customizations) === oldCustomizations) {
+            return;
+        }
+        // don't leave the empty setting in the workspace settings
+        const value = Object.keys(customizations).length ? customizations : undefined;
+        config.update("colorCustomizations", value, ConfigurationTarget.Workspace).then(undefined, () => {
+            window.showErrorMessage("vscode-neovim: Unable to update workbench.colorCustomizations");
+        });
+    }
+
+    private getTintColors(): Set<string> {
+        const colors = new Set<string>();
+        for (const mode of Object.keys(DEFAULT_STYLES) as IndicatorMode[]) {
+            const style = { ...DEFAULT_STYLES[mode], ...this.configuration.modes[mode] };
+            if (style.background) {
+                colors.add(style.background.toLowerCase());
+            }
+        }
+        return colors;
+    }
+}
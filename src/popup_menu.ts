@@ -0,0 +1,132 @@
+import {
+    commands,
+    languages,
+    CancellationToken,
+    CompletionItem,
+    CompletionItemKind,
+    CompletionItemProvider,
+    CompletionList,
+    Disposable,
+    Position,
+    Range,
+    TextDocument,
+} from "vscode";
+import { NeovimClient } from "neovim";
+
+/**
+ * Popup menu item as sent by popupmenu_show: [word, kind, menu, info]
+ */
+export type PopupMenuItem = [string, string, string, string];
+
+/**
+ * Vim completion item kinds, see :help complete-items
+ */
+const ITEM_KINDS: { [kind: string]: CompletionItemKind } = {
+    v: CompletionItemKind.Variable,
+    f: CompletionItemKind.Function,
+    m: CompletionItemKind.Field,
+    t: CompletionItemKind.TypeParameter,
+    d: CompletionItemKind.Constant,
+};
+
+/**
+ * Renders neovim insert mode popup menu (ext_popupmenu) in the vscode suggest widget, so the editor keeps focus.
+ * Neovim is the source of truth: the items don't insert any text, accepting an item only asks neovim to select it
+ * by nvim_select_popupmenu_item() and the text change comes back as buffer update
+ */
+export class PopupMenuController implements Disposable, CompletionItemProvider {
+    public isDisplayed = false;
+
+    private disposables: Disposable[] = [];
+
+    private neovimClient: NeovimClient;
+
+    private items: PopupMenuItem[] = [];
+
+    private selectedIndex = -1;
+
+    /**
+     * Called before accepting an item. Neovim completes its copy of the line, so document changes made in vscode
+     * must be sent first
+     */
+    private beforeAccept: () => Promise<void>;
+
+    public constructor(client: NeovimClient, beforeAccept: () => Promise<void>) {
+        this.neovimClient = client;
+        this.beforeAccept = beforeAccept;
+        this.disposables.push(languages.registerCompletionItemProvider({ pattern: "**" }, this));
+        this.disposables.push(commands.registerCommand("vscode-neovim.select-popupmenu-item", this.onAccept));
+    }
+
+    public show(items: PopupMenuItem[], selected: number): void {
+        this.items = items;
+        this.isDisplayed = true;
+        this.select(selected);
+    }
+
+    /**
+     * Selection changed in neovim, e.g. by <C-n>. The suggest widget can't be driven by index, so it's triggered
+     * again with the selected item preselected
+     */
+    public select(selected: number): void {
+        if (!this.isDisplayed) {
+            return;
+        }
+        this.selectedIndex = selected;
+        commands.executeCommand("editor.action.triggerSuggest");
+    }
+
+    public hide(): void {
+        if (!this.isDisplayed) {
+            return;
+        }
+        this.isDisplayed = false;
+        this.items = [];
+        this.selectedIndex = -1;
+        commands.executeCommand("hideSuggestWidget");
+    }
+
+    public provideCompletionItems(
+        _document: TextDocument,
+        position: Position,
+        _token: CancellationToken,
+    ): CompletionList | undefined {
+        if (!this.isDisplayed) {
+            return;
+        }
+        // empty range: neovim already filtered the items by the completed text, vscode mustn't filter them again
+        const range = new Range(position, position);
+        const items = this.items.map(([word, kind, menu, info], index) => {
+            const item = new CompletionItem(word, ITEM_KINDS[kind] || CompletionItemKind.Text);
+            item.detail = menu || undefined;
+            item.documentation = info || undefined;
+            item.sortText = index.toString().padStart(5, "0");
+            item.preselect = index === this.selectedIndex;
+            item.range = range;
+            item.insertText = "";
+            item.command = { title: "", command: "vscode-neovim.select-popupmenu-item", arguments: [index] };
+            return item;
+        });
+        return new CompletionList(items, false);
+    }
+
+    public dispose(): void {
+        for (const d of this.disposables) {
+            d.dispose();
+        }
+    }
+
+    private onAccept = async (index: number): Promise<void> => {
+        if (!this.isDisplayed) {
+            return;
+        }
+        await this.beforeAccept();
+        this.selectInNeovim(index, true, true);
+    };
+
+    private selectInNeovim(index: number, insert: boolean, finish: boolean): void {
+        this.neovimClient.request("nvim_select_popupmenu_item", [index, insert, finish, {}]).catch(() => {
+            // popup menu may be already closed in neovim
+        });
+    }
+}
@@ -0,0 +1,432 @@
+import { Disposable, window, commands, InputBox, QuickPick, QuickPickItem } from "vscode";
+import { NeovimClient } from "neovim";
+
+import { escapeKeys } from "./utils";
+
+interface ChoiceQuickPickItem extends QuickPickItem {
+    /**
+     * Key to send to neovim
+     */
+    key: string;
+}
+
+interface ConfirmPrompt {
+    question: string;
+    choices: ChoiceQuickPickItem[];
+}
+
+const SUBSTITUTE_CHOICES: { [key: string]: string } = {
+    y: "Yes - substitute this match",
+    l: "Last - substitute this match and stop",
+    n: "No - skip this match",
+    a: "All - substitute this and all remaining matches",
+    q: "Quit - stop substituting",
+};
+
+/**
+ * Prompt of inputlist(), z=, :tselect, etc...
+ */
+const NUMBER_PROMPT = "Type number and <Enter>";
+
+/**
+ * Max messages kept to find inputlist() choices
+ */
+const MAX_RECENT_MESSAGES = 100;
+
+/**
+ * Parse confirm message, e.g. 'Save changes to "a.txt"?\n[Y]es, (N)o, (C)ancel: ' or 'replace with b (y/n/a/q/l/^E/^Y)?'
+ */
+function parseConfirmPrompt(kind: string, text: string): ConfirmPrompt {
+    if (kind === "confirm_sub" || kind === "confirmsub") {
+        const match = /^([\s\S]*?)\s*\(([^()]*)\)\?\s*$/.exec(text);
+        if (!match) {
+            return { question: text.trim(), choices: [] };
+        }
+        const choices = match[2]
+            .split("/")
+            .filter(key => SUBSTITUTE_CHOICES[key])
+            .map(key => ({ label: key, description: SUBSTITUTE_CHOICES[key], key }));
+        return { question: match[1].trim(), choices };
+    }
+    const lines = text.split("\n").filter(l => l.trim());
+    const choicesLine = lines.pop() || "";
+    const choices = choicesLine
+        .replace(/:\s*$/, "")
+        .split(/,\s*/)
+        .filter(c => c)
+        .map(c => {
+            const hotkey = /[[(](.)[\])]/.exec(c);
+            const key = hotkey ? hotkey[1] : c.charAt(0);
+            return {
+                label: c.replace(/[[(](.)[\])]/, "$1"),
+                // the default choice is in []
+                description: c.includes(`[${key}]`) ? "default" : undefined,
+                key: key.toLowerCase(),
+            };
+        });
+    return { question: lines.join(" ").trim(), choices };
+}
+
+/**
+ * Parse inputlist() message, e.g. 'Select:\n1. a\n2. b\nType number and <Enter> or click with the mouse (q or empty cancels): '
+ */
+function parseInputListPrompt(text: string): ConfirmPrompt {
+    const questionLines: string[] = [];
+    const choices: ChoiceQuickPickItem[] = [];
+    for (const line of text.split("\n")) {
+        if (!line.trim() || line.includes(NUMBER_PROMPT)) {
+            continue;
+        }
+        const match = /^\s*(\d+)[.:)]?\s+(.*)$/.exec(line);
+        if (match) {
+            choices.push({ label: match[2], description: match[1], key: match[1] });
+        } else if (!choices.length) {
+            questionLines.push(line.trim());
+        }
+    }
+    return { question: questionLines.join(" "), choices };
+}
+
+/**
+ * @returns true if the message has inputlist() choices, i.e. the lines starting with the number
+ */
+export function hasInputListChoices(text: string): boolean {
+    return parseInputListPrompt(text).choices.length > 0;
+}
+
+/**
+ * Common prefix of the completion items
+ */
+function getCommonPrefix(items: string[]): string {
+    return items.reduce((prefix, item) => {
+        let idx = 0;
+        while (idx < prefix.length && prefix.charAt(idx) === item.charAt(idx)) {
+            idx++;
+        }
+        return prefix.slice(0, idx);
+    });
+}
+
+/**
+ * Neovim prompts, waiting for the user answer
+ */
+export class PromptsController implements Disposable {
+    private confirmInput: QuickPick<ChoiceQuickPickItem>;
+
+    private isConfirmDisplayed = false;
+
+    private ignoreConfirmHideEvent = false;
+
+    private listInput: QuickPick<ChoiceQuickPickItem>;
+
+    private isListDisplayed = false;
+
+    private ignoreListHideEvent = false;
+
+    private inputBox: InputBox;
+
+    private isInputDisplayed = false;
+
+    private ignoreInputHideEvent = false;
+
+    /**
+     * <Tab> was sent to neovim, waiting for the completion items
+     */
+    private isInputCompletionPending = false;
+
+    /**
+     * Messages since the last msg_clear. inputlist() choices may come in the earlier batches than the number prompt
+     */
+    private recentMessages: string[] = [];
+
+    private disposables: Disposable[] = [];
+
+    private neovimClient: NeovimClient;
+
+    public constructor(client: NeovimClient) {
+        this.neovimClient = client;
+        this.confirmInput = window.createQuickPick();
+        this.confirmInput.ignoreFocusOut = true;
+        this.disposables.push(this.confirmInput.onDidAccept(this.onConfirmAccept));
+        this.disposables.push(this.confirmInput.onDidChangeValue(this.onConfirmChangeValue));
+        this.disposables.push(this.confirmInput.onDidHide(this.onConfirmHide));
+        this.listInput = window.createQuickPick();
+        this.listInput.ignoreFocusOut = true;
+        this.listInput.matchOnDescription = true;
+        this.disposables.push(this.listInput.onDidAccept(this.onListAccept));
+        this.disposables.push(this.listInput.onDidHide(this.onListHide));
+        this.inputBox = window.createInputBox();
+        this.inputBox.ignoreFocusOut = true;
+        this.disposables.push(this.inputBox.onDidAccept(this.onInputAccept));
+        this.disposables.push(this.inputBox.onDidHide(this.onInputHide));
+        this.disposables.push(commands.registerCommand("vscode-neovim.complete-input-prompt", this.completeInput));
+    }
+
+    /**
+     * input() prompt. The text is edited in the input box and sent to neovim when accepted, cancelling sends <Esc>
+     */
+    public input(prompt: string, defaultText: string): void {
+        if (this.isInputDisplayed) {
+            // neovim echoes the text sent for the completion. The unique candidate is completed in place
+            // without the completion items, only the new text is sent
+            if (this.isInputCompletionPending && defaultText !== this.inputBox.value) {
+                this.isInputCompletionPending = false;
+                this.inputBox.value = defaultText;
+                this.inputBox.prompt = undefined;
+            }
+            return;
+        }
+        this.isInputDisplayed = true;
+        this.isInputCompletionPending = false;
+        this.inputBox.title = prompt.trim();
+        this.inputBox.prompt = undefined;
+        this.inputBox.value = defaultText;
+        this.inputBox.show();
+        commands.executeCommand("setContext", "neovim.inputPrompt", true);
+    }
+
+    /**
+     * Neovim sent the completion items requested by <Tab> in the input() prompt. The common part is completed,
+     * the candidates are displayed under the input
+     */
+    public setInputCompletionItems(items: string[]): boolean {
+        if (!this.isInputDisplayed) {
+            return false;
+        }
+        if (!this.isInputCompletionPending || !items.length) {
+            return true;
+        }
+        this.isInputCompletionPending = false;
+        const words = this.inputBox.value.split(" ");
+        const lastWord = words[words.length - 1];
+        const completion = getCommonPrefix(items);
+        if (completion.length > lastWord.length) {
+            this.inputBox.value = words
+                .slice(0, -1)
+                .concat(completion)
+                .join(" ");
+        }
+        this.inputBox.prompt = items.length > 1 ? items.join("  ") : undefined;
+        return true;
+    }
+
+    /**
+     * Neovim left the input() prompt
+     */
+    public hideInput(): void {
+        if (!this.isInputDisplayed) {
+            return;
+        }
+        this.isInputDisplayed = false;
+        this.ignoreInputHideEvent = true;
+        this.inputBox.hide();
+        commands.executeCommand("setContext", "neovim.inputPrompt", false);
+    }
+
+    /**
+     * Message which isn't a prompt. Kept to find the inputlist() choices
+     */
+    public addMessage(text: string): void {
+        this.recentMessages.push(text);
+        if (this.recentMessages.length > MAX_RECENT_MESSAGES) {
+            this.recentMessages.shift();
+        }
+    }
+
+    /**
+     * Neovim cleared the messages
+     */
+    public clearMessages(): void {
+        this.recentMessages = [];
+    }
+
+    /**
+     * @param batch Earlier messages of the same msg_show batch
+     * @returns true if the message is the number prompt of inputlist(). The prompt text is translated
+     * with :language, so the prompt line ending with ":" right after the choices starting from 1 is recognized too.
+     * Only the same batch is checked then, otherwise any message ending with ":" after :ls or :marks output matches
+     */
+    public isInputListPrompt(text: string, batch: string[]): boolean {
+        if (text.includes(NUMBER_PROMPT)) {
+            return true;
+        }
+        const lines = text.split("\n");
+        if (!/:\s*$/.test(lines[lines.length - 1])) {
+            return false;
+        }
+        const { choices } = parseInputListPrompt([...batch, ...lines.slice(0, -1)].join("\n"));
+        return choices.length > 0 && choices[0].key === "1";
+    }
+
+    /**
+     * inputlist() prompt. The number of the selected choice is sent, cancelling sends <Esc>
+     * @param batch Earlier messages of the same msg_show batch
+     */
+    public inputList(text: string, batch: string[]): void {
+        // choices may come as the separate messages before the prompt, the translated prompt is recognized only
+        // when they're in the same batch
+        const choiceMessages = text.includes(NUMBER_PROMPT) ? this.recentMessages : batch;
+        const { question, choices } = parseInputListPrompt([...choiceMessages, text].join("\n"));
+        this.recentMessages = [];
+        this.listInput.title = question;
+        this.listInput.placeholder = "Type the number or select the choice";
+        this.listInput.items = choices;
+        this.listInput.value = "";
+        if (!this.isListDisplayed) {
+            this.isListDisplayed = true;
+            this.listInput.show();
+        }
+    }
+
+    /**
+     * Neovim cleared the inputlist() prompt, e.g. when the number was typed into neovim directly
+     */
+    public hideInputList(): void {
+        if (!this.isListDisplayed) {
+            return;
+        }
+        this.isListDisplayed = false;
+        this.ignoreListHideEvent = true;
+        this.listInput.hide();
+    }
+
+    /**
+     * confirm()/:confirm and :s///c prompts. The answer is sent as the key, cancelling sends <Esc>
+     */
+    public confirm(kind: string, text: string): void {
+        const { question, choices } = parseConfirmPrompt(kind, text);
+        this.confirmInput.title = question;
+        this.confirmInput.placeholder = "Type the choice key or select the choice";
+        this.confirmInput.items = choices;
+        this.confirmInput.value = "";
+        if (!this.isConfirmDisplayed) {
+            this.isConfirmDisplayed = true;
+            this.confirmInput.show();
+        }
+    }
+
+    /**
+     * Press ENTER prompt after the long output. The output is already displayed in the messages panel, so accept it.
+     * The prompt is not accepted when the confirm or inputlist() prompt is waiting for the answer, <CR> would answer it
+     */
+    public returnPrompt(): void {
+        if (this.isConfirmDisplayed || this.isListDisplayed) {
+            return;
+        }
+        this.neovimClient.input("<CR>");
+    }
+
+    /**
+     * Neovim cleared the prompt, e.g. when the answer was typed into neovim directly
+     */
+    public hideConfirm(): void {
+        if (!this.isConfirmDisplayed) {
+            return;
+        }
+        this.isConfirmDisplayed = false;
+        this.ignoreConfirmHideEvent = true;
+        this.confirmInput.hide();
+    }
+
+    public dispose(): void {
+        for (const d of this.disposables) {
+            d.dispose();
+        }
+        this.confirmInput.dispose();
+        this.listInput.dispose();
+        this.inputBox.dispose();
+    }
+
+    private answerConfirm(key: string): void {
+        this.isConfirmDisplayed = false;
+        this.ignoreConfirmHideEvent = true;
+        this.confirmInput.hide();
+        this.neovimClient.input(key);
+    }
+
+    private onConfirmAccept = (): void => {
+        const item = this.confirmInput.activeItems[0];
+        if (!this.isConfirmDisplayed || !item) {
+            return;
+        }
+        this.answerConfirm(item.key);
+    };
+
+    private onConfirmChangeValue = (value: string): void => {
+        if (!this.isConfirmDisplayed || value.length !== 1) {
+            return;
+        }
+        const item = this.confirmInput.items.find(i => i.key === value.toLowerCase());
+        if (item) {
+            this.answerConfirm(item.key);
+        }
+    };
+
+    private onConfirmHide = (): void => {
+        if (this.ignoreConfirmHideEvent) {
+            this.ignoreConfirmHideEvent = false;
+            return;
+        }
+        if (!this.isConfirmDisplayed) {
+            return;
+        }
+        this.isConfirmDisplayed = false;
+        this.neovimClient.input("<Esc>");
+    };
+
+    private onListAccept = (): void => {
+        const item = this.listInput.activeItems[0];
+        if (!this.isListDisplayed || !item) {
+            return;
+        }
+        this.isListDisplayed = false;
+        this.ignoreListHideEvent = true;
+        this.listInput.hide();
+        this.neovimClient.input(`${item.key}<CR>`);
+    };
+
+    private onListHide = (): void => {
+        if (this.ignoreListHideEvent) {
+            this.ignoreListHideEvent = false;
+            return;
+        }
+        if (!this.isListDisplayed) {
+            return;
+        }
+        this.isListDisplayed = false;
+        this.neovimClient.input("<Esc>");
+    };
+
+    private onInputAccept = (): void => {
+        if (!this.isInputDisplayed) {
+            return;
+        }
+        const value = this.inputBox.value;
+        this.hideInput();
+        this.neovimClient.input(`<C-u>${escapeKeys(value)}<CR>`);
+    };
+
+    private onInputHide = (): void => {
+        if (this.ignoreInputHideEvent) {
+            this.ignoreInputHideEvent = false;
+            return;
+        }
+        if (!this.isInputDisplayed) {
+            return;
+        }
+        this.isInputDisplayed = false;
+        commands.executeCommand("setContext", "neovim.inputPrompt", false);
+        this.neovimClient.input("<Esc>");
+    };
+
+    /**
+     * <Tab> in the input() prompt. Neovim completes the text typed so far
+     */
+    private completeInput = (): void => {
+        if (!this.isInputDisplayed) {
+            return;
+        }
+        this.isInputCompletionPending = true;
+        this.neovimClient.input(`<C-u>${escapeKeys(this.inputBox.value)}<Tab>`);
+    };
+}
@@ -0,0 +1,197 @@
+import {
+    Disposable,
+    window,
+    Range,
+    Position,
+    TextEditor,
+    TextEditorDecorationType,
+    TextEditorRevealType,
+    ThemableDecorationRenderOptions,
+    ThemeColor,
+} from "vscode";
+import { NeovimClient } from "neovim";
+
+import { HighlightProvider } from "./highlight_provider";
+import { convertByteNumToCharNum, convertCharNumToByteNum } from "./utils";
+
+/**
+ * Match as [line, start byte col, end byte col]
+ */
+type SearchMatch = [number, number, number];
+
+interface SearchPreview {
+    /**
+     * Matches in the visible lines around the current match
+     */
+    matches: SearchMatch[];
+    /**
+     * Index of the current match. -1 if there are no matches
+     */
+    current: number;
+    /**
+     * Total matches count. -1 if neovim can't count matches (searchcount() requires neovim 0.5+)
+     */
+    total: number;
+    /**
+     * searchcount() result is incomplete: 1 - counting timed out, 2 - more than maxcount matches
+     */
+    incomplete?: number;
+    currentMatch?: SearchMatch;
+}
+
+/**
+ * Renders incsearch/hlsearch preview for / and ? command line. Neovim finds the matches,
+ * they're highlighted with Search & IncSearch highlight colors (or vscode find colors if not defined)
+ */
+export class SearchPreviewController implements Disposable {
+    private client: NeovimClient;
+
+    private highlightProvider: HighlightProvider;
+
+    private matchDecorator?: TextEditorDecorationType;
+
+    private currentMatchDecorator?: TextEditorDecorationType;
+
+    /**
+     * Editor, cursor and top visible line when the search was started
+     */
+    private searchStart?: { editor: TextEditor; cursor: Position; topLine: number };
+
+    /**
+     * Incremented for every update & clear, late neovim responses are dropped
+     */
+    private requestId = 0;
+
+    public constructor(client: NeovimClient, highlightProvider: HighlightProvider) {
+        this.client = client;
+        this.highlightProvider = highlightProvider;
+    }
+
+    /**
+     * @returns Match counter, e.g. [3/17]. Empty if there is nothing to display
+     */
+    public async update(pattern: string, backward: boolean): Promise<string> {
+        const requestId = ++this.requestId;
+        if (!this.searchStart) {
+            const editor = window.activeTextEditor;
+            if (!editor) {
+                return "";
+            }
+            this.searchStart = {
+                editor,
+                cursor: editor.selection.active,
+                topLine: editor.visibleRanges.length ? editor.visibleRanges[0].start.line : 0,
+            };
+        }
+        const { editor, cursor, topLine } = this.searchStart;
+        const visibleRange = editor.visibleRanges[0];
+        const height = visibleRange ? visibleRange.end.line - visibleRange.start.line + 1 : 50;
+        const cursorByteCol = convertCharNumToByteNum(editor.document.lineAt(cursor.line).text, cursor.character);
+        let preview: SearchPreview | undefined;
+        try {
+            preview = await this.client.callFunction("VSCodeGetSearchPreview", [
+                pattern,
+                backward,
+                cursor.line,
+                cursorByteCol,
+                topLine,
+                height,
+            ]);
+        } catch {
+            preview = undefined;
+        }
+        if (requestId !== this.requestId) {
+            return "";
+        }
+        if (!preview || !preview.matches) {
+            this.clearDecorations();
+            return "";
+        }
+        this.createDecorators();
+        const toRange = ([line, start, end]: SearchMatch): Range => {
+            const lineText = line < editor.document.lineCount ? editor.document.lineAt(line).text : "";
+            return new Range(
+                line,
+                convertByteNumToCharNum(lineText, start),
+                line,
+                convertByteNumToCharNum(lineText, end),
+            );
+        };
+        const currentRange = preview.currentMatch ? toRange(preview.currentMatch) : undefined;
+        editor.setDecorations(
+            this.matchDecorator!,
+            preview.matches.map(toRange).filter(r => !currentRange || !r.isEqual(currentRange)),
+        );
+        editor.setDecorations(this.currentMatchDecorator!, currentRange ? [currentRange] : []);
+        if (currentRange) {
+            editor.revealRange(currentRange, TextEditorRevealType.InCenterIfOutsideViewport);
+        }
+        if (preview.total < 0) {
+            return "";
+        }
+        if (preview.incomplete === 1) {
+            return "[?/??]";
+        }
+        return `[${preview.current + 1}/${preview.incomplete === 2 ? ">" : ""}${preview.total}]`;
+    }
+
+    /**
+     * Clear the preview. Restores the scroll position when the search was cancelled
+     */
+    public clear(restoreScroll = false): void {
+        this.requestId++;
+        if (!this.searchStart) {
+            return;
+        }
+        const { editor, topLine } = this.searchStart;
+        this.searchStart = undefined;
+        this.clearDecorations(editor);
+        if (restoreScroll) {
+            editor.revealRange(new Range(topLine, 0, topLine, 0), TextEditorRevealType.AtTop);
+        }
+    }
+
+    public dispose(): void {
+        if (this.matchDecorator) {
+            this.matchDecorator.dispose();
+        }
+        if (this.currentMatchDecorator) {
+            this.currentMatchDecorator.dispose();
+        }
+    }
+
+    private clearDecorations(editor = this.searchStart && this.searchStart.editor): void {
+        if (!editor) {
+            return;
+        }
+        if (this.matchDecorator) {
+            editor.setDecorations(this.matchDecorator, []);
+        }
+        if (this.currentMatchDecorator) {
+            editor.setDecorations(this.currentMatchDecorator, []);
+        }
+    }
+
+    /**
+     * Highlight groups are known only after neovim sent them, so create decorators on the first use
+     */
+    private createDecorators(): void {
+        if (!this.matchDecorator) {
+            this.matchDecorator = window.createTextEditorDecorationType(
+                this.getHighlightOptions("Search", "editor.findMatchHighlightBackground"),
+            );
+        }
+        if (!this.currentMatchDecorator) {
+            this.currentMatchDecorator = window.createTextEditorDecorationType(
+                this.getHighlightOptions("IncSearch", "editor.findMatchBackground"),
+            );
+        }
+    }
+
+    private getHighlightOptions(groupName: string, fallbackColor: string): ThemableDecorationRenderOptions {
+        const decorator = this.highlightProvider.getDecoratorForHighlightGroup(groupName);
+        return decorator
+            ? this.highlightProvider.getDecoratorOptions(decorator)
+            : { backgroundColor: new ThemeColor(fallbackColor) };
+    }
+}
@@ -1,14 +1,36 @@
 import * as vscode from "vscode";
 
+/**
+ * Part of the neovim statusline with the same highlight
+ */
+export interface StatusLineSegment {
+    text: string;
+    /**
+     * Highlight group color. Empty to use the status bar color
+     */
+    color: string;
+}
+
 export class StatusLineController implements vscode.Disposable {
     private modeItem: vscode.StatusBarItem;
     private commandItem: vscode.StatusBarItem;
     private msgItem: vscode.StatusBarItem;
+    private errorItem: vscode.StatusBarItem;
+    /**
+     * Items of the rendered neovim statusline
+     */
+    private statusLineItems: vscode.StatusBarItem[] = [];
 
     public constructor() {
         this.modeItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 10);
         this.commandItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 5);
         this.msgItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 1);
+        this.errorItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 11);
+        this.errorItem.color = new vscode.ThemeColor("errorForeground");
+        this.errorItem.tooltip = "Restart neovim";
+        this.errorItem.command = "vscode-neovim.restart";
+        this.msgItem.tooltip = "Show messages log";
+        this.msgItem.command = "vscode-neovim.showMessages";
     }
 
     public set modeString(str: string) {
@@ -38,9 +60,49 @@ export class StatusLineController implements vscode.Disposable {
         }
     }
 
+    /**
+     * Neovim error, e.g. when neovim exited. Clicking restarts neovim
+     */
+    public set errorString(str: string) {
+        if (!str) {
+            this.errorItem.hide();
+        } else {
+            this.errorItem.text = str;
+            this.errorItem.show();
+        }
+    }
+
+    /**
+     * Neovim statusline, every segment is displayed as the separate item. Whitespace-only segments (e.g. %= padding) are skipped
+     */
+    public set neovimStatusLine(segments: StatusLineSegment[]) {
+        const visibleSegments = segments
+            .map(({ text, color }) => ({ text: text.trim().replace(/\s+/g, " "), color }))
+            .filter(({ text }) => text);
+        visibleSegments.forEach(({ text, color }, idx) => {
+            if (!this.statusLineItems[idx]) {
+                this.statusLineItems[idx] = vscode.window.createStatusBarItem(
+                    vscode.StatusBarAlignment.Right,
+                    1000 - idx,
+                );
+            }
+            const item = this.statusLineItems[idx];
+            item.text = text;
+            item.color = color || undefined;
+            item.show();
+        });
+        for (const item of this.statusLineItems.slice(visibleSegments.length)) {
+            item.hide();
+        }
+    }
+
     public dispose(): void {
+        for (const item of this.statusLineItems) {
+            item.dispose();
+        }
         this.commandItem.dispose();
         this.modeItem.dispose();
         this.msgItem.dispose();
+        this.errorItem.dispose();
     }
 }
@@ -0,0 +1,105 @@
+import { Disposable, window, Range, DecorationOptions, TextEditorDecorationType } from "vscode";
+import { NeovimClient } from "neovim";
+
+import { HighlightProvider } from "./highlight_provider";
+import { convertByteNumToCharNum } from "./utils";
+
+/**
+ * Substitute match as [line, start byte col, end byte col, replacement]
+ */
+type SubstituteMatch = [number, number, number, string];
+
+/**
+ * Cheap check for the :s command followed by the delimiter, e.g. "%s/" or "'<,'>substitute#". Neovim parses the
+ * command line only when it matches
+ */
+const SUBSTITUTE_COMMAND = /(?:^|[\d\s%$.,;<>+-]|'[a-zA-Z<>])s[a-z]*[^\w\s"|\\]/;
+
+/**
+ * Renders inccommand preview for :s command in the active editor. Neovim computes the matches & replacements,
+ * the matched text is struck through and the replacement is displayed after it with Substitute highlight colors
+ */
+export class SubstitutePreviewController implements Disposable {
+    private client: NeovimClient;
+
+    private highlightProvider: HighlightProvider;
+
+    private decorator: TextEditorDecorationType;
+
+    /**
+     * Incremented for every update & clear, late neovim responses are dropped
+     */
+    private requestId = 0;
+
+    private isDisplayed = false;
+
+    public constructor(client: NeovimClient, highlightProvider: HighlightProvider) {
+        this.client = client;
+        this.highlightProvider = highlightProvider;
+        this.decorator = window.createTextEditorDecorationType({ textDecoration: "line-through" });
+    }
+
+    public async update(cmdline: string): Promise<void> {
+        if (!SUBSTITUTE_COMMAND.test(cmdline)) {
+            this.clear();
+            return;
+        }
+        const requestId = ++this.requestId;
+        let matches: SubstituteMatch[];
+        try {
+            matches = await this.client.callFunction("VSCodeGetSubstitutePreview", [cmdline]);
+        } catch {
+            matches = [];
+        }
+        const editor = window.activeTextEditor;
+        if (requestId !== this.requestId || !editor) {
+            return;
+        }
+        if (!matches.length && !this.isDisplayed) {
+            return;
+        }
+        const substituteDecorator = this.highlightProvider.getDecoratorForHighlightGroup("Substitute");
+        const substituteOptions = substituteDecorator
+            ? this.highlightProvider.getDecoratorOptions(substituteDecorator)
+            : {};
+        const decorations: DecorationOptions[] = [];
+        for (const [line, startByte, endByte, replacement] of matches) {
+            if (line >= editor.document.lineCount) {
+                continue;
+            }
+            const lineText = editor.document.lineAt(line).text;
+            decorations.push({
+                range: new Range(
+                    line,
+                    convertByteNumToCharNum(lineText, startByte),
+                    line,
+                    convertByteNumToCharNum(lineText, endByte),
+                ),
+                renderOptions: {
+                    after: {
+                        contentText: replacement,
+                        color: substituteOptions.color,
+                        backgroundColor: substituteOptions.backgroundColor,
+                    },
+                },
+            });
+        }
+        editor.setDecorations(this.decorator, decorations);
+        this.isDisplayed = decorations.length > 0;
+    }
+
+    public clear(): void {
+        this.requestId++;
+        if (!this.isDisplayed) {
+            return;
+        }
+        this.isDisplayed = false;
+        for (const editor of window.visibleTextEditors) {
+            editor.setDecorations(this.decorator, []);
+        }
+    }
+
+    public dispose(): void {
+        this.decorator.dispose();
+    }
+}
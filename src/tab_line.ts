@@ -0,0 +1,182 @@
+import path from "path";
+
+import { Disposable, window, workspace, commands, Uri, ViewColumn, TextEditor, QuickPickItem } from "vscode";
+import { NeovimClient, Tabpage } from "neovim";
+
+import { Logger } from "./logger";
+
+/**
+ * Tabpage as sent by tabline_update
+ */
+export interface NeovimTabpage {
+    tab: Tabpage;
+    name: string;
+}
+
+interface TabPageQuickPickItem extends QuickPickItem {
+    editor: TextEditor;
+}
+
+/**
+ * Editors of the visible groups ordered by the group. One editor per group
+ */
+function getGroupEditors(): TextEditor[] {
+    const editors: Map<number, TextEditor> = new Map();
+    for (const editor of window.visibleTextEditors) {
+        if (editor.viewColumn && !editors.has(editor.viewColumn)) {
+            editors.set(editor.viewColumn, editor);
+        }
+    }
+    return [...editors.entries()].sort(([a], [b]) => a - b).map(([, editor]) => editor);
+}
+
+/**
+ * Vim tab pages are vscode editor groups. All neovim windows for the editors live in the first neovim tabpage, so when neovim
+ * creates another tabpage (e.g. by :tab {cmd}), its buffer is opened in a new editor group and the tabpage is closed
+ */
+export class TabLineController implements Disposable {
+    /**
+     * Neovim tabpages from the last tabline_update
+     */
+    public tabpages: NeovimTabpage[] = [];
+
+    public currentTabpage?: Tabpage;
+
+    private client: NeovimClient;
+
+    private logger: Logger;
+
+    private isMovingTabpages = false;
+
+    public constructor(client: NeovimClient, logger: Logger) {
+        this.client = client;
+        this.logger = logger;
+    }
+
+    public update(curtab: Tabpage, tabs: NeovimTabpage[]): void {
+        this.currentTabpage = curtab;
+        this.tabpages = tabs;
+        const [main, ...other] = tabs;
+        if (main && other.length && !this.isMovingTabpages) {
+            this.moveTabpagesToEditorGroups(main, other);
+        }
+    }
+
+    /**
+     * :tabs
+     */
+    public showTabPages = async (): Promise<void> => {
+        const active = window.activeTextEditor;
+        const items: TabPageQuickPickItem[] = getGroupEditors().map((editor, idx) => ({
+            label: `Tab page ${idx + 1}`,
+            description: `${editor === active ? "> " : ""}${path.basename(editor.document.fileName)}`,
+            detail: editor.document.uri.toString(),
+            editor,
+        }));
+        const item = await window.showQuickPick(items, { placeHolder: "Tab pages" });
+        if (item) {
+            await window.showTextDocument(item.editor.document, item.editor.viewColumn);
+        }
+    };
+
+    /**
+     * {count}gt goes to tab page {count}, {count}gT goes {count} tab pages back
+     */
+    public goToTabPage = async (count: number, direction: "next" | "prev"): Promise<void> => {
+        const editors = getGroupEditors();
+        if (!editors.length) {
+            return;
+        }
+        let idx: number;
+        if (direction === "next") {
+            idx = count - 1;
+            if (idx >= editors.length) {
+                return;
+            }
+        } else {
+            const curr = this.getActiveTabPageIndex(editors);
+            idx = (((curr - count) % editors.length) + editors.length) % editors.length;
+        }
+        const editor = editors[idx];
+        await window.showTextDocument(editor.document, editor.viewColumn);
+    };
+
+    /**
+     * :tabmove [N], :tabmove +N, :tabmove -N
+     */
+    public moveTabPage = async (arg: string): Promise<void> => {
+        const editors = getGroupEditors();
+        const curr = this.getActiveTabPageIndex(editors);
+        if (curr === -1) {
+            return;
+        }
+        const last = editors.length - 1;
+        const match = /^\s*([+-]?)(\d*|\$)\s*$/.exec(arg);
+        if (!match) {
+            window.showErrorMessage(`vscode-neovim: Invalid argument for :tabmove - ${arg}`);
+            return;
+        }
+        const [, sign, num] = match;
+        let target: number;
+        if (num === "$" || (!sign && !num)) {
+            target = last;
+        } else if (sign) {
+            const by = num ? parseInt(num, 10) : 1;
+            target = sign === "+" ? curr + by : curr - by;
+        } else {
+            // the tab page is moved after the N-th one, which shifts to the left when the tab page is moved right
+            const n = parseInt(num, 10);
+            target = n > curr ? n - 1 : n;
+        }
+        target = Math.max(0, Math.min(target, last));
+        // groups without text editors (e.g. the messages panel) aren't tab pages but the group is moved over them too
+        const currColumn = editors[curr].viewColumn!;
+        const targetColumn = editors[target].viewColumn!;
+        const command =
+            target > curr
+                ? "workbench.action.moveActiveEditorGroupRight"
+                : "workbench.action.moveActiveEditorGroupLeft";
+        for (let i = 0; i < Math.abs(targetColumn - currColumn); i++) {
+            await commands.executeCommand(command);
+        }
+    };
+
+    public dispose(): void {
+        this.tabpages = [];
+        this.currentTabpage = undefined;
+    }
+
+    private getActiveTabPageIndex(editors: TextEditor[]): number {
+        const active = window.activeTextEditor;
+        return active ? editors.findIndex(e => e.viewColumn === active.viewColumn) : -1;
+    }
+
+    private async moveTabpagesToEditorGroups(main: NeovimTabpage, other: NeovimTabpage[]): Promise<void> {
+        this.isMovingTabpages = true;
+        try {
+            const names: string[] = [];
+            for (const { tab } of other) {
+                const win = await tab.window;
+                const buf = await win.buffer;
+                names.push(await buf.name);
+            }
+            this.logger.debug("tabline", "Moving tabpages to editor groups", names);
+            await this.client.callAtomic([
+                ["nvim_set_current_tabpage", [main.tab]],
+                ["nvim_command", ["tabonly!"]],
+            ]);
+            for (const name of names) {
+                if (!name) {
+                    continue;
+                }
+                const uri = /:\/\//.test(name) ? Uri.parse(name, true) : Uri.file(name);
+                const doc = await workspace.openTextDocument(uri);
+                await window.showTextDocument(doc, { viewColumn: ViewColumn.Beside, preview: false });
+            }
+        } catch (e) {
+            this.logger.error("tabline", "Unable to move tabpages to editor groups", e.message);
+        } finally {
+            this.isMovingTabpages = false;
+        }
+    }
+}
@@ -1,3 +1,5 @@
+import { strict as assert } from "assert";
+
 import vscode from "vscode";
 import { NeovimClient } from "neovim";
 
@@ -153,6 +155,34 @@ describe("Basic editing and navigation", () => {
         );
     });
 
+    it("Neovim changes are applied as minimal edits", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["1abc", "2abc blah", "3abc"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc, vscode.ViewColumn.One);
+        await wait();
+
+        const changes: vscode.TextDocumentContentChangeEvent[] = [];
+        const disposable = vscode.workspace.onDidChangeTextDocument(e => {
+            if (e.document === doc) {
+                changes.push(...e.contentChanges);
+            }
+        });
+        await sendVSCodeKeys("jllx");
+        disposable.dispose();
+
+        await assertContent(
+            {
+                content: ["1abc", "2ac blah", "3abc"],
+                cursor: [1, 2],
+            },
+            client,
+        );
+        assert.equal(changes.length, 1);
+        assert.ok(changes[0].range.isEqual(new vscode.Range(1, 2, 1, 3)));
+        assert.equal(changes[0].text, "");
+    });
+
     it("Keys changing mode to the insert mode", async () => {
         const doc = await vscode.workspace.openTextDocument({
             content: "1abc",
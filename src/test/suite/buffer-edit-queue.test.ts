@@ -0,0 +1,150 @@
+import { strict as assert } from "assert";
+
+import vscode from "vscode";
+import { NeovimClient } from "neovim";
+
+import { BufferEditQueue, BufferChange, BufferLinesChange } from "../../buffer_edit_queue";
+import {
+    attachTestNvimClient,
+    closeNvimClient,
+    closeAllActiveEditors,
+    wait,
+    sendVSCodeKeys,
+    assertContent,
+} from "../utils";
+
+function linesChange(tick: number, data: string[]): BufferLinesChange {
+    return { kind: "lines", bufferId: 1, tick, firstLine: 0, lastLine: 1, data };
+}
+
+/**
+ * Applier which records the changes and doesn't finish until released
+ */
+function createBlockingApplier(): {
+    applied: BufferChange[][];
+    applier: (bufferId: number, changes: BufferChange[]) => Promise<void>;
+    release: () => Promise<void>;
+} {
+    const applied: BufferChange[][] = [];
+    let resolvers: Array<() => void> = [];
+    return {
+        applied,
+        applier: (_bufferId, changes): Promise<void> => {
+            applied.push(changes);
+            return new Promise(res => resolvers.push(res));
+        },
+        release: async (): Promise<void> => {
+            const current = resolvers;
+            resolvers = [];
+            current.forEach(res => res());
+            await wait(0);
+        },
+    };
+}
+
+describe("Buffer edit queue", () => {
+    it("Applies changes in tick order", async () => {
+        const { applied, applier, release } = createBlockingApplier();
+        const queue = new BufferEditQueue(applier);
+
+        queue.push(linesChange(1, ["a"]));
+        queue.push(linesChange(3, ["c"]));
+        queue.push(linesChange(2, ["b"]));
+        assert.deepEqual(
+            applied.map(changes => changes.map(c => c.tick)),
+            [[1]],
+        );
+
+        await release();
+        assert.deepEqual(
+            applied.map(changes => changes.map(c => c.tick)),
+            [[1], [2, 3]],
+        );
+        await release();
+        assert.equal(queue.size, 0);
+    });
+
+    it("Joins multipart lines events", async () => {
+        const { applied, applier, release } = createBlockingApplier();
+        const queue = new BufferEditQueue(applier);
+
+        queue.push(linesChange(5, ["a", "b"]), true);
+        queue.push(linesChange(5, ["c"]), true);
+        assert.equal(applied.length, 0);
+
+        queue.push(linesChange(5, ["d"]));
+        assert.equal(applied.length, 1);
+        assert.deepEqual((applied[0][0] as BufferLinesChange).data, ["a", "b", "c", "d"]);
+        await release();
+    });
+
+    it("Reports saturation and resolves waiters on drain", async () => {
+        const { applied, applier, release } = createBlockingApplier();
+        const queue = new BufferEditQueue(applier, 2);
+
+        for (let tick = 1; tick <= 4; tick++) {
+            queue.push(linesChange(tick, [`${tick}`]));
+        }
+        assert.equal(queue.size, 4);
+        assert.ok(queue.isSaturated);
+
+        let drained = false;
+        const drain = queue.waitForDrain().then(() => {
+            drained = true;
+        });
+        await release();
+        assert.ok(!drained);
+        await release();
+        await drain;
+        assert.ok(drained);
+        assert.ok(!queue.isSaturated);
+        assert.deepEqual(
+            applied.map(changes => changes.map(c => c.tick)),
+            [[1], [2, 3, 4]],
+        );
+    });
+
+    it("Continues after failed edit", async () => {
+        const applied: number[] = [];
+        const queue = new BufferEditQueue(async (_bufferId, changes) => {
+            if (changes[0].tick === 1) {
+                throw new Error("Failed");
+            }
+            applied.push(...changes.map(c => c.tick));
+        });
+
+        queue.push(linesChange(1, ["a"]));
+        queue.push(linesChange(2, ["b"]));
+        await queue.waitForDrain();
+        assert.deepEqual(applied, [2]);
+    });
+
+    describe("With neovim", () => {
+        let client: NeovimClient;
+        before(async () => {
+            client = await attachTestNvimClient();
+        });
+        after(async () => {
+            await closeNvimClient(client);
+        });
+
+        afterEach(async () => {
+            await closeAllActiveEditors();
+        });
+
+        it("Keys typed while the changes are applied land after them", async () => {
+            const doc = await vscode.workspace.openTextDocument({
+                content: "1",
+            });
+            await vscode.window.showTextDocument(doc);
+            await wait();
+
+            await sendVSCodeKeys("qayypq");
+            await sendVSCodeKeys("100@a", 0);
+            await sendVSCodeKeys("Gx", 0);
+            await wait(2000);
+
+            await assertContent({ content: [...new Array(101).fill("1"), ""] }, client);
+        });
+    });
+});
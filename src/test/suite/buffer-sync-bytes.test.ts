@@ -0,0 +1,158 @@
+import { strict as assert } from "assert";
+
+import vscode from "vscode";
+import { NeovimClient } from "neovim";
+
+import {
+    attachTestNvimClient,
+    sendVSCodeKeys,
+    assertContent,
+    wait,
+    closeAllActiveEditors,
+    closeNvimClient,
+    sendEscapeKey,
+    sendVSCodeSpecialKey,
+} from "../utils";
+
+async function setBufferSyncBackend(backend: "lines" | "bytes" | undefined): Promise<void> {
+    await vscode.workspace
+        .getConfiguration("vscode-neovim")
+        .update("bufferSyncBackend", backend, vscode.ConfigurationTarget.Global);
+    await vscode.commands.executeCommand("vscode-neovim.restart");
+    await wait(2000);
+}
+
+describe("Bytes buffer sync backend", () => {
+    let client: NeovimClient;
+    before(async () => {
+        await setBufferSyncBackend("bytes");
+        client = await attachTestNvimClient();
+    });
+    after(async () => {
+        await closeNvimClient(client);
+        await setBufferSyncBackend(undefined);
+    });
+
+    afterEach(async () => {
+        await closeAllActiveEditors();
+    });
+
+    it("Normal mode edits", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["1abc", "", "2abc blah", "3abc blah blah", "4abc"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc, vscode.ViewColumn.One);
+        await wait();
+
+        await sendVSCodeKeys("jjllx");
+        await assertContent({ content: ["1abc", "", "2ac blah", "3abc blah blah", "4abc"], cursor: [2, 2] }, client);
+
+        await sendVSCodeKeys("dw");
+        await assertContent({ content: ["1abc", "", "2ablah", "3abc blah blah", "4abc"], cursor: [2, 2] }, client);
+
+        await sendVSCodeKeys("dd");
+        await assertContent({ content: ["1abc", "", "3abc blah blah", "4abc"], cursor: [2, 0] }, client);
+
+        await sendVSCodeKeys("p");
+        await assertContent({ content: ["1abc", "", "3abc blah blah", "2ablah", "4abc"], cursor: [3, 0] }, client);
+
+        await sendVSCodeKeys("u");
+        await assertContent({ content: ["1abc", "", "3abc blah blah", "4abc"] }, client);
+    });
+
+    it("Insert mode edits", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: "blah\nblah2",
+        });
+        await vscode.window.showTextDocument(doc, vscode.ViewColumn.One);
+        await wait(1000);
+
+        await sendVSCodeKeys("lli");
+        await sendVSCodeKeys("test");
+        await sendVSCodeSpecialKey("cursorDown");
+        await sendVSCodeKeys("test");
+        await sendEscapeKey();
+        await assertContent({ content: ["bltestah", "blah2test"] }, client);
+
+        await sendVSCodeKeys("ggi");
+        await sendVSCodeKeys("\n");
+        await sendEscapeKey();
+        await assertContent({ content: ["", "bltestah", "blah2test"], cursor: [1, 0] }, client);
+
+        await sendVSCodeKeys("A");
+        await sendVSCodeSpecialKey("backspace");
+        await sendVSCodeSpecialKey("backspace");
+        await sendEscapeKey();
+        await assertContent({ content: ["", "bltest", "blah2test"] }, client);
+    });
+
+    it("Multibyte chars", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["测试微服务", "äöü blah", "没办法跳转到最后一个"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc, vscode.ViewColumn.One);
+        await wait();
+
+        await sendVSCodeKeys("llx");
+        await assertContent(
+            { content: ["测试服务", "äöü blah", "没办法跳转到最后一个"], vsCodeCursor: [0, 2] },
+            client,
+        );
+
+        await sendVSCodeKeys("jlx");
+        await assertContent({ content: ["测试服务", "äö blah", "没办法跳转到最后一个"] }, client);
+
+        await sendVSCodeKeys("jA");
+        await sendVSCodeKeys("测试");
+        await sendEscapeKey();
+        await assertContent({ content: ["测试服务", "äö blah", "没办法跳转到最后一个测试"] }, client);
+
+        await sendVSCodeKeys("0xx");
+        await assertContent({ content: ["测试服务", "äö blah", "法跳转到最后一个测试"] }, client);
+
+        await sendVSCodeKeys("ggJ");
+        await assertContent({ content: ["测试服务 äö blah", "法跳转到最后一个测试"] }, client);
+    });
+
+    it("CRLF document", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["line 1", "line 2", "line 3"].join("\r\n"),
+        });
+        await vscode.window.showTextDocument(doc, vscode.ViewColumn.One);
+        await wait();
+
+        await sendVSCodeKeys("jx");
+        await assertContent({ content: ["line 1", "ine 2", "line 3"], cursor: [1, 0] }, client);
+
+        await sendVSCodeKeys("o");
+        await sendVSCodeKeys("new line");
+        await sendEscapeKey();
+        await assertContent({ content: ["line 1", "ine 2", "new line", "line 3"] }, client);
+
+        await sendVSCodeKeys("ggJ");
+        await assertContent({ content: ["line 1 ine 2", "new line", "line 3"] }, client);
+
+        // deletes the last line, the change includes the buffer trailing line break
+        await sendVSCodeKeys("Gdd");
+        await assertContent({ content: ["line 1 ine 2", "new line"] }, client);
+        assert.equal(vscode.window.activeTextEditor!.document.eol, vscode.EndOfLine.CRLF);
+    });
+
+    it("Appending after the last line", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["a", "b"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc, vscode.ViewColumn.One);
+        await wait();
+
+        await sendVSCodeKeys(":$put ='x'", 0);
+        await sendVSCodeKeys("\n", 1000);
+        await assertContent({ content: ["a", "b", "x"], cursor: [2, 0] }, client);
+
+        await sendVSCodeKeys("ggyyGp");
+        await assertContent({ content: ["a", "b", "x", "a"], cursor: [3, 0] }, client);
+
+        await sendVSCodeKeys("dd");
+        await assertContent({ content: ["a", "b", "x"], cursor: [2, 0] }, client);
+    });
+});
@@ -0,0 +1,104 @@
+import { strict as assert } from "assert";
+import crypto from "crypto";
+
+import vscode from "vscode";
+import { NeovimClient } from "neovim";
+
+import {
+    attachTestNvimClient,
+    closeNvimClient,
+    closeAllActiveEditors,
+    wait,
+    sendVSCodeKeys,
+    sendEscapeKey,
+    assertContent,
+} from "../utils";
+
+describe("Buffer sync check", () => {
+    let client: NeovimClient;
+    before(async () => {
+        client = await attachTestNvimClient();
+    });
+    after(async () => {
+        await closeNvimClient(client);
+    });
+
+    afterEach(async () => {
+        await closeAllActiveEditors();
+    });
+
+    /**
+     * Compare the document hash with the buffer hash the same way the sync check does
+     */
+    const assertInSync = async (): Promise<void> => {
+        const document = vscode.window.activeTextEditor!.document;
+        const buf = await client.buffer;
+        const [tick, bufHash] = await client.callFunction("VSCodeGetBufferSyncState", [buf.id]);
+        assert.equal(tick, await buf.changedtick);
+        const docHash = crypto
+            .createHash("sha256")
+            .update(document.getText().replace(/\r\n/g, "\n"), "utf8")
+            .digest("hex");
+        assert.equal(docHash, bufHash, "Document and buffer hashes");
+    };
+
+    it("In sync after edits", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["1abc", "", "2abc blah", "3abc"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc);
+        await wait();
+        await assertInSync();
+
+        await sendVSCodeKeys("jjdwp");
+        await sendVSCodeKeys("O");
+        await sendVSCodeKeys("new line");
+        await sendEscapeKey();
+        await assertContent({ content: ["1abc", "", "new line", "b2abc lah", "3abc"] }, client);
+        await assertInSync();
+    });
+
+    it("In sync after fast macro", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["a1", "a2", "a3", "a4", "a5", "a6", "a7", "a8"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc);
+        await wait();
+
+        await sendVSCodeKeys("qaA!");
+        await sendEscapeKey();
+        await sendVSCodeKeys("jq");
+        await sendVSCodeKeys("7@a", 1000);
+        await assertContent({ content: ["a1!", "a2!", "a3!", "a4!", "a5!", "a6!", "a7!", "a8!"] }, client);
+        await assertInSync();
+    });
+
+    it("In sync for CRLF document with multibyte chars", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["测试微服务", "äöü blah", ""].join("\r\n"),
+        });
+        await vscode.window.showTextDocument(doc);
+        await wait();
+        await assertInSync();
+
+        await sendVSCodeKeys("lxjdd");
+        await assertContent({ content: ["测微服务", ""] }, client);
+        await assertInSync();
+    });
+
+    it("In sync after the document is changed outside of the editor", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["line 1", "line 2"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc);
+        await wait();
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.insert(doc.uri, new vscode.Position(1, 0), "inserted\n");
+        edit.replace(doc.uri, new vscode.Range(0, 0, 0, 4), "first");
+        await vscode.workspace.applyEdit(edit);
+        await wait();
+        await assertContent({ content: ["first 1", "inserted", "line 2"] }, client);
+        await assertInSync();
+    });
+});
@@ -437,4 +437,30 @@ describe("Insert mode and buffer syncronization", () => {
             client,
         );
     });
+
+    it("Multiple cursors on the same line", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["blah1 blah2", "blah3", "blah4"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc, vscode.ViewColumn.One);
+        await wait(1000);
+
+        await sendVSCodeKeys("i");
+        await setSelection([
+            { anchorPos: [0, 0], cursorPos: [0, 0] },
+            { anchorPos: [0, 6], cursorPos: [0, 6] },
+            { anchorPos: [2, 5], cursorPos: [2, 5] },
+        ]);
+        await sendVSCodeKeys("test");
+        await sendVSCodeKeys("\n");
+        await sendVSCodeSpecialKey("backspace");
+        await sendEscapeKey();
+
+        await assertContent(
+            {
+                content: ["testblah1 testblah2", "blah3", "blah4test"],
+            },
+            client,
+        );
+    });
 });
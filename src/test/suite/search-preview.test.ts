@@ -0,0 +1,111 @@
+import { strict as assert } from "assert";
+
+import vscode from "vscode";
+import { NeovimClient } from "neovim";
+
+import {
+    attachTestNvimClient,
+    closeNvimClient,
+    closeAllActiveEditors,
+    wait,
+    sendVSCodeKeys,
+    assertContent,
+} from "../utils";
+
+interface SearchPreview {
+    matches?: [number, number, number][];
+    current?: number;
+    total?: number;
+    currentMatch?: [number, number, number];
+}
+
+describe("Search preview", () => {
+    let client: NeovimClient;
+    before(async () => {
+        client = await attachTestNvimClient();
+    });
+    after(async () => {
+        await closeNvimClient(client);
+    });
+
+    afterEach(async () => {
+        await closeAllActiveEditors();
+    });
+
+    const getPreview = (
+        pattern: string,
+        backward: boolean,
+        [line, col]: [number, number],
+        topLine = 0,
+        height = 10,
+    ): Promise<SearchPreview> =>
+        client.callFunction("VSCodeGetSearchPreview", [pattern, backward, line, col, topLine, height]);
+
+    it("Returns the current match, visible matches and the count", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["foo bar", "baz foo", "foo"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc);
+        await wait();
+
+        const forward = await getPreview("foo", false, [0, 0]);
+        assert.deepEqual(forward.currentMatch, [1, 4, 7]);
+        assert.deepEqual(forward.matches, [
+            [0, 0, 3],
+            [1, 4, 7],
+            [2, 0, 3],
+        ]);
+        assert.equal(forward.current, 1);
+        assert.equal(forward.total, 3);
+
+        const backward = await getPreview("foo", true, [2, 0]);
+        assert.deepEqual(backward.currentMatch, [1, 4, 7]);
+        assert.equal(backward.current, 1);
+
+        const wrapped = await getPreview("foo", false, [2, 0]);
+        assert.deepEqual(wrapped.currentMatch, [0, 0, 3]);
+        assert.equal(wrapped.current, 0);
+
+        // only matches of the visible lines
+        const visible = await getPreview("foo", false, [0, 0], 1, 1);
+        assert.deepEqual(visible.matches, [[1, 4, 7]]);
+        assert.equal(visible.total, 3);
+
+        // neovim cursor isn't moved
+        await assertContent({ cursor: [0, 0] }, client);
+    });
+
+    it("No matches", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["foo bar", "baz foo"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc);
+        await wait();
+
+        assert.deepEqual(await getPreview("", false, [0, 0]), {});
+        assert.deepEqual(await getPreview("blah", false, [0, 0]), { matches: [], current: -1, total: 0 });
+
+        await client.command("set ignorecase smartcase");
+        assert.equal((await getPreview("Foo", false, [0, 0])).total, 0);
+        assert.equal((await getPreview("fOO\\c", false, [0, 0])).total, 2);
+        await client.command("set noignorecase nosmartcase");
+    });
+
+    it("Keeps the cursor while typing and cancelling the search", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["foo bar", "baz foo", "foo"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc);
+        await wait();
+
+        await sendVSCodeKeys("/foo", 0);
+        await wait(1000);
+        await vscode.commands.executeCommand("workbench.action.closeQuickOpen");
+        await wait(1000);
+        await assertContent({ cursor: [0, 0] }, client);
+
+        await sendVSCodeKeys("/foo", 0);
+        await sendVSCodeKeys("\n", 1000);
+        await assertContent({ cursor: [1, 4] }, client);
+    });
+});
@@ -0,0 +1,93 @@
+import { strict as assert } from "assert";
+
+import vscode from "vscode";
+import { NeovimClient } from "neovim";
+
+import {
+    attachTestNvimClient,
+    closeNvimClient,
+    closeAllActiveEditors,
+    wait,
+    sendVSCodeKeys,
+    assertContent,
+} from "../utils";
+
+describe("Substitute preview", () => {
+    let client: NeovimClient;
+    before(async () => {
+        client = await attachTestNvimClient();
+        await client.command("set inccommand=nosplit");
+    });
+    after(async () => {
+        await client.command("set inccommand=");
+        await closeNvimClient(client);
+    });
+
+    afterEach(async () => {
+        await closeAllActiveEditors();
+    });
+
+    const getPreview = (cmdline: string): Promise<[number, number, number, string][]> =>
+        client.callFunction("VSCodeGetSubstitutePreview", [cmdline]);
+
+    it("Returns matches with replacements", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["foo bar foo", "baz foo", "blah"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc);
+        await wait();
+
+        assert.deepEqual(await getPreview("%s/foo/x/g"), [
+            [0, 0, 3, "x"],
+            [0, 8, 11, "x"],
+            [1, 4, 7, "x"],
+        ]);
+        assert.deepEqual(await getPreview("%s/foo/x"), [
+            [0, 0, 3, "x"],
+            [1, 4, 7, "x"],
+        ]);
+        assert.deepEqual(await getPreview("2s/foo/x/"), [[1, 4, 7, "x"]]);
+        assert.deepEqual(await getPreview("%s#\\(ba\\)\\(r\\)#\\2\\1#"), [[0, 4, 7, "rba"]]);
+        assert.deepEqual(await getPreview("%substitute/FOO/y/i"), [
+            [0, 0, 3, "y"],
+            [1, 4, 7, "y"],
+        ]);
+    });
+
+    it("No preview for other commands and unsupported replacements", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["foo bar foo", "baz foo"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc);
+        await wait();
+
+        assert.deepEqual(await getPreview("set ts=4"), []);
+        assert.deepEqual(await getPreview("%s/foo"), []);
+        assert.deepEqual(await getPreview("%s/foo/x/gn"), []);
+        assert.deepEqual(await getPreview("%s/foo/\\=line('.')/"), []);
+        assert.deepEqual(await getPreview("%s/foo/~/"), []);
+
+        await client.command("set inccommand=");
+        assert.deepEqual(await getPreview("%s/foo/x/g"), []);
+        await client.command("set inccommand=nosplit");
+    });
+
+    it("Doesn't change the document while typing", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["foo bar foo", "baz foo"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc);
+        await wait();
+
+        await sendVSCodeKeys(":%s/foo/x/g", 0);
+        await wait(1000);
+        await assertContent({ content: ["foo bar foo", "baz foo"] }, client);
+        await vscode.commands.executeCommand("workbench.action.closeQuickOpen");
+        await wait(1000);
+        await assertContent({ content: ["foo bar foo", "baz foo"] }, client);
+
+        await sendVSCodeKeys(":%s/foo/x/g", 0);
+        await sendVSCodeKeys("\n", 1000);
+        await assertContent({ content: ["x bar x", "baz x"] }, client);
+    });
+});
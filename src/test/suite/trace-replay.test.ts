@@ -0,0 +1,40 @@
+import { strict as assert } from "assert";
+import fs from "fs";
+import path from "path";
+
+import vscode from "vscode";
+import { NeovimClient } from "neovim";
+
+import { attachTestNvimClient, assertContent, wait, closeAllActiveEditors, closeNvimClient } from "../utils";
+import { loadTrace, replayTrace } from "../trace_replay";
+
+const TRACES_DIR = path.join(__dirname, "../../../test_fixtures/traces");
+
+describe("Trace replay", () => {
+    let client: NeovimClient;
+    before(async () => {
+        client = await attachTestNvimClient();
+    });
+    after(async () => {
+        await closeNvimClient(client);
+    });
+
+    afterEach(async () => {
+        await closeAllActiveEditors();
+    });
+
+    for (const file of fs.readdirSync(TRACES_DIR).filter(f => f.endsWith(".json"))) {
+        it(file, async () => {
+            const trace = loadTrace(path.join(TRACES_DIR, file));
+            const editors = await replayTrace(trace);
+
+            for (const { uri, content } of trace.final) {
+                const editor = editors.get(uri);
+                assert.ok(editor, `Document ${uri} wasn't opened`);
+                await vscode.window.showTextDocument(editor!.document, editor!.viewColumn);
+                await wait();
+                await assertContent({ content: content.split(/\r?\n/) }, client);
+            }
+        });
+    }
+});
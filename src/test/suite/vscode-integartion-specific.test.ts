@@ -311,6 +311,62 @@ describe("VSCode integration specific stuff", () => {
         );
     });
 
+    it("Typing a path with the unique completion doesn't complete it in place", async () => {
+        const dirPath = fs.mkdtempSync(path.join(os.tmpdir(), "vscode-neovim-"));
+        const filePath = path.join(dirPath, "unique_completion.txt");
+        fs.writeFileSync(filePath, ["line 1"].join("\n"), {
+            encoding: "utf8",
+        });
+
+        const doc = await vscode.workspace.openTextDocument({ content: "blah" });
+        await vscode.window.showTextDocument(doc);
+        await wait(1000);
+
+        const typed = ":e " + path.join(dirPath, "uniq");
+        await sendVSCodeKeys(typed, 0);
+        await wait(1000);
+        assert.equal(await client.callFunction("getcmdline", []), typed.slice(1));
+
+        await sendVSCodeKeys("ue_completion.txt", 0);
+        await wait(1000);
+        assert.equal(await client.callFunction("getcmdline", []), "e " + filePath);
+        await sendVSCodeKeys("\n", 2000);
+
+        await assertContent(
+            {
+                content: ["line 1"],
+            },
+            client,
+        );
+    });
+
+    it("Substitute with confirmation", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["a a a"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc);
+        await wait(1000);
+
+        await sendVSCodeKeys(":%s/a/b/gc", 0);
+        await sendVSCodeKeys("\n", 1000);
+        // choices are listed as y, n, a, q, l, the first one is active
+        await vscode.commands.executeCommand("workbench.action.acceptSelectedQuickOpenItem");
+        await wait(500);
+        await vscode.commands.executeCommand("workbench.action.quickOpenSelectNext");
+        await vscode.commands.executeCommand("workbench.action.acceptSelectedQuickOpenItem");
+        await wait(500);
+        await vscode.commands.executeCommand("workbench.action.acceptSelectedQuickOpenItem");
+        await wait(1000);
+
+        await assertContent(
+            {
+                content: ["b a b"],
+            },
+            client,
+        );
+        await vscode.commands.executeCommand("workbench.action.closeQuickOpen");
+    });
+
     it("Spawning command line from visual mode produces vscode selection", async () => {
         const doc = await vscode.workspace.openTextDocument({
             content: ["a1", "b1", "c1"].join("\n"),
@@ -340,4 +396,35 @@ describe("VSCode integration specific stuff", () => {
         );
         await vscode.commands.executeCommand("workbench.action.closeQuickOpen");
     });
+
+    it("Executes edited line of the command line window", async () => {
+        const doc = await vscode.workspace.openTextDocument({
+            content: ["foo", "bar"].join("\n"),
+        });
+        await vscode.window.showTextDocument(doc);
+        await wait(1000);
+        await client.callFunction("histadd", [":", "s/foo/qux/"]);
+
+        await sendVSCodeKeys("q:");
+        await wait(1000);
+        const cmdwinDoc = vscode.window.activeTextEditor!.document;
+        assert.notEqual(cmdwinDoc, doc);
+        assert.equal(cmdwinDoc.lineAt(cmdwinDoc.lineCount - 2).text, "s/foo/qux/");
+        assert.equal(cmdwinDoc.lineAt(cmdwinDoc.lineCount - 1).text, "");
+
+        await sendVSCodeKeys("kA");
+        await sendVSCodeKeys("g");
+        await sendEscapeKey();
+        await vscode.commands.executeCommand("vscode-neovim.send", "<CR>");
+        await wait(1500);
+
+        assert.equal(vscode.window.activeTextEditor!.document, doc);
+        await assertContent(
+            {
+                content: ["qux", "bar"],
+            },
+            client,
+        );
+        assert.equal(await client.callFunction("histget", [":", -1]), "s/foo/qux/g");
+    });
 });
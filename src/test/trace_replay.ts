@@ -0,0 +1,83 @@
+import fs from "fs";
+
+import { TextEditor, window, workspace, commands, Selection, Range } from "vscode";
+
+import { Trace, TraceSelection } from "../trace_recorder";
+
+import { wait } from "./utils";
+
+export function loadTrace(file: string): Trace {
+    const trace: Trace = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (trace.version !== 1) {
+        throw new Error(`Unsupported trace version: ${trace.version}`);
+    }
+    return trace;
+}
+
+function toSelection([anchorLine, anchorChar, activeLine, activeChar]: TraceSelection): Selection {
+    return new Selection(anchorLine, anchorChar, activeLine, activeChar);
+}
+
+/**
+ * Feed recorded vscode events back to the extension. Neovim events are skipped since neovim produces them again.
+ * Documents are opened as untitled documents with the recorded content
+ * @param maxDelay Max delay between events. Recorded delays are preserved up to this value
+ * @returns Editors by the recorded document uri
+ */
+export async function replayTrace(trace: Trace, maxDelay = 500): Promise<Map<string, TextEditor>> {
+    const editors: Map<string, TextEditor> = new Map();
+    let prevTime = 0;
+    for (const event of trace.events) {
+        await wait(Math.min(Math.max(event.time - prevTime, 0), maxDelay));
+        prevTime = event.time;
+        switch (event.type) {
+            case "open-editor": {
+                const { uri, languageId, content, viewColumn, selections } = event.document;
+                if (editors.has(uri)) {
+                    break;
+                }
+                const doc = await workspace.openTextDocument({ language: languageId, content });
+                const editor = await window.showTextDocument(doc, viewColumn);
+                editor.selections = selections.map(toSelection);
+                editors.set(uri, editor);
+                await wait();
+                break;
+            }
+            case "active-editor": {
+                const editor = editors.get(event.uri);
+                if (editor && editor !== window.activeTextEditor) {
+                    await window.showTextDocument(editor.document, editor.viewColumn);
+                }
+                break;
+            }
+            case "document-change": {
+                const editor = editors.get(event.uri);
+                if (editor) {
+                    await editor.edit(b => {
+                        for (const { range, text } of event.changes) {
+                            b.replace(new Range(...range), text);
+                        }
+                    });
+                }
+                break;
+            }
+            case "selection-change": {
+                const editor = editors.get(event.uri);
+                if (editor) {
+                    editor.selections = event.selections.map(toSelection);
+                }
+                break;
+            }
+            case "type": {
+                await commands.executeCommand("type", { text: event.text });
+                break;
+            }
+            case "escape": {
+                await commands.executeCommand("vscode-neovim.escape");
+                break;
+            }
+        }
+    }
+    await wait();
+    return editors;
+}
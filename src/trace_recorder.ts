@@ -0,0 +1,123 @@
+/**
+ * Selection as [anchor line, anchor character, active line, active character]
+ */
+export type TraceSelection = [number, number, number, number];
+
+export interface TraceDocument {
+    uri: string;
+    languageId: string;
+    content: string;
+    viewColumn?: number;
+    selections: TraceSelection[];
+}
+
+/**
+ * Events crossing the controller boundary. VSCode events are inputs and replayed by the test harness,
+ * neovim events are outputs and recorded only for the investigation
+ */
+export type TraceEvent =
+    | { time: number; type: "open-editor"; document: TraceDocument }
+    | { time: number; type: "active-editor"; uri: string }
+    | {
+          time: number;
+          type: "document-change";
+          uri: string;
+          version: number;
+          changes: Array<{ range: [number, number, number, number]; text: string }>;
+      }
+    | { time: number; type: "selection-change"; uri: string; kind?: number; selections: TraceSelection[] }
+    | { time: number; type: "type"; text: string }
+    | { time: number; type: "escape" }
+    | { time: number; type: "redraw"; batch: unknown[] }
+    | { time: number; type: "notification"; method: string; args: unknown[] }
+    | {
+          time: number;
+          type: "buffer-lines";
+          bufferId: number;
+          tick: number;
+          firstLine: number;
+          lastLine: number;
+          data: string[];
+          more: boolean;
+      }
+    | {
+          time: number;
+          type: "buffer-bytes";
+          bufferId: number;
+          tick: number;
+          startLine: number;
+          startCol: number;
+          endLine: number;
+          endCol: number;
+          data: string[];
+      };
+
+type WithoutTime<T> = T extends unknown ? Omit<T, "time"> : never;
+
+export interface Trace {
+    version: 1;
+    /**
+     * ISO date when the recording was started
+     */
+    recordedAt: string;
+    /**
+     * Events with time in ms since the recording start
+     */
+    events: TraceEvent[];
+    /**
+     * Content of the recorded documents when the recording was stopped. Replaying the trace should produce
+     * the same content, so fix it to the expected one when turning a bug report into the regression test
+     */
+    final: Array<{ uri: string; content: string }>;
+}
+
+/**
+ * Records time-stamped controller events
+ */
+export class TraceRecorder {
+    private events: TraceEvent[] = [];
+
+    private startTime = 0;
+
+    private recordedAt = "";
+
+    private recording = false;
+
+    public get isRecording(): boolean {
+        return this.recording;
+    }
+
+    public start(): void {
+        this.events = [];
+        this.startTime = Date.now();
+        this.recordedAt = new Date(this.startTime).toISOString();
+        this.recording = true;
+    }
+
+    public record(event: WithoutTime<TraceEvent>): void {
+        if (!this.recording) {
+            return;
+        }
+        this.events.push({ ...event, time: Date.now() - this.startTime } as TraceEvent);
+    }
+
+    /**
+     * Uris of documents opened during the recording
+     */
+    public get documentUris(): string[] {
+        const uris: string[] = [];
+        for (const event of this.events) {
+            if (event.type === "open-editor" && !uris.includes(event.document.uri)) {
+                uris.push(event.document.uri);
+            }
+        }
+        return uris;
+    }
+
+    public stop(final: Trace["final"]): Trace {
+        this.recording = false;
+        const trace: Trace = { version: 1, recordedAt: this.recordedAt, events: this.events, final };
+        this.events = [];
+        return trace;
+    }
+}
@@ -1,5 +1,7 @@
-import { Diff } from "fast-diff";
-import { TextEditor } from "vscode";
+import { NetConnectOpts } from "net";
+
+import diff, { Diff } from "fast-diff";
+import { TextEditor, TextDocument, TextDocumentContentChangeEvent } from "vscode";
 import wcwidth from "ts-wcwidth";
 
 export interface EditRange {
@@ -20,6 +22,26 @@ export interface GridConf {
     bottomScreenLineStr: string;
 }
 
+/**
+ * Replace text in the range. Coords are zero based
+ */
+export interface TextEdit {
+    startLine: number;
+    startChar: number;
+    endLine: number;
+    endChar: number;
+    text: string;
+}
+
+/**
+ * Replace lines from start to end (exclusive) in the neovim buffer. Maps to nvim_buf_set_lines
+ */
+export interface BufferLineEdit {
+    start: number;
+    end: number;
+    lines: string[];
+}
+
 export type GridLineEvent = [number, number, number, [string, number, number][]];
 
 export function processLineNumberStringFromEvent(
@@ -196,6 +218,119 @@ export function prepareEditRangesFromDiff(diffs: Diff[]): EditRange[] {
     return ranges;
 }
 
+/**
+ * Convert vscode content changes into neovim line edits. Changes touching same lines are combined into one edit and
+ * the new line content is taken from the document, so the document must be in the state right after the change event.
+ * Edits are returned in the descending order and can be applied one by one
+ */
+export function prepareLineEditsFromContentChanges(
+    document: TextDocument,
+    changes: readonly TextDocumentContentChangeEvent[],
+): BufferLineEdit[] {
+    const groups: Array<{ start: number; end: number; lineDiff: number }> = [];
+    const sorted = [...changes].sort((a, b) => a.range.start.compareTo(b.range.start));
+    for (const change of sorted) {
+        const start = change.range.start.line;
+        const end = change.range.end.line;
+        const lineDiff = (change.text.match(/\n/g) || []).length - (end - start);
+        const lastGroup = groups[groups.length - 1];
+        // multiple cursors on the same line
+        if (lastGroup && start <= lastGroup.end) {
+            lastGroup.end = Math.max(lastGroup.end, end);
+            lastGroup.lineDiff += lineDiff;
+        } else {
+            groups.push({ start, end, lineDiff });
+        }
+    }
+    const edits: BufferLineEdit[] = [];
+    let prevLineDiff = 0;
+    for (const { start, end, lineDiff } of groups) {
+        const newStart = start + prevLineDiff;
+        const newEnd = end + lineDiff + prevLineDiff;
+        const lines: string[] = [];
+        for (let line = newStart; line <= newEnd; line++) {
+            lines.push(document.lineAt(line).text);
+        }
+        edits.push({ start, end: end + 1, lines });
+        prevLineDiff += lineDiff;
+    }
+    return edits.reverse();
+}
+
+/**
+ * Try to merge the edit into the previous one. Possible when the edit touches only lines produced by the previous edit,
+ * e.g. when typing on the same line
+ */
+export function mergeLineEdits(prev: BufferLineEdit, next: BufferLineEdit): BufferLineEdit | undefined {
+    if (next.start < prev.start || next.end > prev.start + prev.lines.length) {
+        return;
+    }
+    return {
+        start: prev.start,
+        end: prev.end,
+        lines: [
+            ...prev.lines.slice(0, next.start - prev.start),
+            ...next.lines,
+            ...prev.lines.slice(next.end - prev.start),
+        ],
+    };
+}
+
+/**
+ * Calculate minimal character edits to turn old lines into new lines
+ * @param oldLines Old lines, the first one is at startLine in the document
+ * @param newLines New lines
+ * @param startLine Document line where the lines are starting
+ * @param atDocumentEnd Lines are the last lines in the document, so the last line doesn't have newline
+ */
+export function calculateTextEditsFromLines(
+    oldLines: string[],
+    newLines: string[],
+    startLine: number,
+    atDocumentEnd: boolean,
+): TextEdit[] {
+    const joinLines = (lines: string[]): string => {
+        const text = lines.map(l => l + "\n").join("");
+        return atDocumentEnd ? text.slice(0, -1) : text;
+    };
+    const edits: TextEdit[] = [];
+    let line = startLine;
+    let char = 0;
+    let currEdit: TextEdit | undefined;
+    for (const [diffRes, diffStr] of diff(joinLines(oldLines), joinLines(newLines))) {
+        if (diffRes === diff.INSERT) {
+            if (!currEdit) {
+                currEdit = { startLine: line, startChar: char, endLine: line, endChar: char, text: "" };
+            }
+            currEdit.text += diffStr;
+            continue;
+        }
+        if (diffRes === diff.EQUAL && currEdit) {
+            edits.push(currEdit);
+            currEdit = undefined;
+        }
+        if (diffRes === diff.DELETE && !currEdit) {
+            currEdit = { startLine: line, startChar: char, endLine: line, endChar: char, text: "" };
+        }
+        // advance position in the old text
+        const strLines = diffStr.split("\n");
+        if (strLines.length > 1) {
+            line += strLines.length - 1;
+            char = strLines[strLines.length - 1].length;
+        } else {
+            char += diffStr.length;
+        }
+        if (currEdit) {
+            currEdit.endLine = line;
+            currEdit.endChar = char;
+        }
+    }
+    if (currEdit) {
+        edits.push(currEdit);
+    }
+    return edits;
+}
+
 function getBytesFromCodePoint(point?: number): number {
     if (point == null) {
         return 0;
@@ -286,3 +421,33 @@ export function getEditorCursorPos(editor: TextEditor, conf: GridConf): { line:
         col,
     };
 }
+
+/**
+ * Connection options for the neovim server address. host:port is a TCP address, anything else is
+ * a unix socket or windows named pipe path
+ */
+export function getNeovimServerConnectOptions(address: string): NetConnectOpts {
+    const match = /^(.+):(\d+)$/.exec(address);
+    if (match) {
+        // strip brackets from IPv6 host
+        return { host: match[1].replace(/^\[(.*)\]$/, "$1"), port: parseInt(match[2], 10) };
+    }
+    return { path: address };
+}
+
+/**
+ * Join text of ext_messages content chunks, which are [attr_id, text] pairs
+ */
+export function getMessageChunksText(content: [number, string][] | undefined): string {
+    if (!content) {
+        return "";
+    }
+    return content.map(([, text]) => text || "").join("");
+}
+
+/**
+ * Escape text to be typed by nvim_input()
+ */
+export function escapeKeys(str: string): string {
+    return str.replace(/</g, "<LT>");
+}
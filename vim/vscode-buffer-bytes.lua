@@ -0,0 +1,27 @@
+-- Byte level buffer sync. Requires neovim 0.5+ (on_bytes callback)
+-- on_bytes events are available only for lua callbacks, so forward them to the extension by rpcnotify
+
+-- Returns the new text of the changed region. The buffer is already changed when on_bytes is called
+local function get_new_text(buf, start_row, start_col, new_end_row, new_end_col)
+    local lines = vim.api.nvim_buf_get_lines(buf, start_row, start_row + new_end_row + 1, false)
+    -- the change may end right after the last buffer line
+    while #lines < new_end_row + 1 do
+        table.insert(lines, "")
+    end
+    local end_col = new_end_row == 0 and start_col + new_end_col or new_end_col
+    lines[#lines] = string.sub(lines[#lines], 1, end_col)
+    lines[1] = string.sub(lines[1], start_col + 1)
+    return lines
+end
+
+function _G.vscode_attach_buffer_bytes(buf, channel)
+    return vim.api.nvim_buf_attach(buf, false, {
+        on_bytes = function(_, bufnr, tick, start_row, start_col, _, old_end_row, old_end_col, _, new_end_row, new_end_col)
+            -- old end column is relative to the start column when the change ends on the same line
+            local end_row = start_row + old_end_row
+            local end_col = old_end_row == 0 and start_col + old_end_col or old_end_col
+            local data = get_new_text(bufnr, start_row, start_col, new_end_row, new_end_col)
+            vim.rpcnotify(channel, "vscode-buffer-bytes", bufnr, tick, start_row, start_col, end_row, end_col, data)
+        end,
+    })
+end
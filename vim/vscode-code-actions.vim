@@ -94,5 +94,10 @@ nnoremap <expr> <C-/> <SID>vscodeCommentary() . '_'
 nnoremap gk :<C-u>call VSCodeCall('cursorMove', { 'to': 'up', 'by': 'wrappedLine', 'value': v:count ? v:count : 1 })<CR>
 nnoremap gj :<C-u>call VSCodeCall('cursorMove', { 'to': 'down', 'by': 'wrappedLine', 'value': v:count ? v:count : 1 })<CR>
 
+" Command line window is opened as the document
+nnoremap <silent> q: :<C-u>call VSCodeExtensionNotify('cmdwin', ':')<CR>
+nnoremap <silent> q/ :<C-u>call VSCodeExtensionNotify('cmdwin', '/')<CR>
+nnoremap <silent> q? :<C-u>call VSCodeExtensionNotify('cmdwin', '?')<CR>
+
 " workaround for calling command picker in visual mode
 xnoremap <silent> <C-P> :<C-u>call <SID>openVSCodeCommandsInVisualMode()<CR>
@@ -35,7 +35,8 @@ command! -bang Write if <q-bang> == '!' | call VSCodeNotify('workbench.action.fi
 command! -bang Saveas call VSCodeNotify('workbench.action.files.saveAs')
 
 command! -bang Wall call VSCodeNotify('workbench.action.files.saveAll')
-command! -bang Quit if <q-bang> == '!' | call VSCodeNotify('workbench.action.revertAndCloseActiveEditor') | else | call VSCodeNotify('workbench.action.closeActiveEditor') | endif
+" Command line window document is closed without asking to save
+command! -bang Quit if <q-bang> == '!' || exists('b:vscode_cmdwin') | call VSCodeNotify('workbench.action.revertAndCloseActiveEditor') | else | call VSCodeNotify('workbench.action.closeActiveEditor') | endif
 
 command! -bang Wq call <SID>saveAndClose()
 
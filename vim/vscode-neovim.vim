@@ -55,6 +55,53 @@ function! VSCodeClearUndo(bufId)
     unlet oldlevels
 endfunction
 
+" Called from extension to check if the buffer is in sync with vscode document
+function! VSCodeGetBufferSyncState(bufId)
+    let lines = nvim_buf_get_lines(a:bufId, 0, -1, 0)
+    return [nvim_buf_get_changedtick(a:bufId), sha256(join(lines, "\n"))]
+endfunction
+
+" Buffer is owned by the given channel or by a client which is no longer connected (e.g. before reloading the window)
+function! s:isSessionBuffer(buf, channel)
+    let owner = getbufvar(a:buf, 'vscode_channel', 0)
+    return owner == a:channel || (owner > 0 && empty(nvim_get_chan_info(owner)))
+endfunction
+
+" Called from extension when attaching to or detaching from already running neovim to close windows and
+" wipe out buffers created by the extension. Buffers of other connected vscode instances are kept
+function! VSCodeCleanupSession(channel)
+    for win in nvim_list_wins()
+        if get(nvim_win_get_config(win), 'external', 0) && s:isSessionBuffer(nvim_win_get_buf(win), a:channel)
+            call nvim_win_close(win, 1)
+        endif
+    endfor
+    for buf in nvim_list_bufs()
+        if s:isSessionBuffer(buf, a:channel)
+            execute 'bwipeout! ' . buf
+        endif
+    endfor
+endfunction
+
+" Called from extension for its windows when attached to already running neovim. vscode-options.vim isn't sourced
+" there to keep the user session intact, so the window options required by the extension are set locally
+function! VSCodeSetSessionWindowOptions(win)
+    call setwinvar(a:win, '&wrap', 0)
+    call setwinvar(a:win, '&list', 1)
+    let listchars = filter(split(&g:listchars, ','), 'v:val !~# "^eol:"') + ['eol:$']
+    call setwinvar(a:win, '&listchars', join(listchars, ','))
+    call setwinvar(a:win, '&scrolloff', 100)
+    call setwinvar(a:win, '&relativenumber', 0)
+    call setwinvar(a:win, '&cursorline', 0)
+    call setwinvar(a:win, '&signcolumn', 'no')
+    call setwinvar(a:win, '&foldenable', 0)
+    call setwinvar(a:win, '&foldmethod', 'manual')
+endfunction
+
+" Called from extension to receive byte level buffer changes as vscode-buffer-bytes notifications. Requires neovim 0.5+
+function! VSCodeAttachBufferBytes(bufId)
+    return luaeval('vscode_attach_buffer_bytes(_A[1], _A[2])', [a:bufId, g:vscode_channel])
+endfunction
+
 " Called from extension to align screen row in neovim after scrolling
 " function! VSCodeAlignScreenRow(row)
 "     let currentRow = winline()
@@ -100,6 +147,281 @@ function! VSCodeGetRegister(reg)
     return getreg(a:reg)
 endfunction
 
+" Returns [startByteCol, endByteCol] list of the pattern matches in the line. Only the first match if not global
+function! s:getLineMatches(line, pattern, global)
+    let matches = []
+    let start = 0
+    while start <= len(a:line)
+        let [match, mstart, mend] = matchstrpos(a:line, a:pattern, start)
+        if mstart == -1
+            break
+        endif
+        call add(matches, [mstart, mend])
+        if !a:global
+            break
+        endif
+        let start = mend > mstart ? mend : mend + 1
+    endwhile
+    return matches
+endfunction
+
+function! s:collectSubstituteMatches(pattern, replacement, global, result) range
+    " limit the preview for huge ranges
+    for lnum in range(a:firstline, min([a:lastline, a:firstline + 1000]))
+        let line = getline(lnum)
+        let matches = s:getLineMatches(line, a:pattern, a:global)
+        if empty(matches)
+            continue
+        endif
+        " substitute the whole line, the pattern may depend on the text around the match (^, \zs, lookbehind, etc)
+        let substituted = substitute(line, a:pattern, a:replacement, a:global ? 'g' : '')
+        let lineResult = []
+        let rebuilt = ''
+        let prevEnd = 0
+        for [mstart, mend] in matches
+            let replacement = substitute(strpart(line, mstart, mend - mstart), a:pattern, a:replacement, '')
+            call add(lineResult, [lnum - 1, mstart, mend, replacement])
+            let rebuilt .= strpart(line, prevEnd, mstart - prevEnd) . replacement
+            let prevEnd = mend
+        endfor
+        let rebuilt .= strpart(line, prevEnd)
+        if rebuilt ==# substituted
+            call extend(a:result, lineResult)
+            continue
+        endif
+        if substituted ==# line
+            continue
+        endif
+        " the replacement depends on the text around the match, display the changed part of the line as one match
+        let chars = split(line, '\zs')
+        let newChars = split(substituted, '\zs')
+        let [prefix, prefixBytes] = [0, 0]
+        while prefix < len(chars) && prefix < len(newChars) && chars[prefix] ==# newChars[prefix]
+            let prefixBytes += len(chars[prefix])
+            let prefix += 1
+        endwhile
+        let [suffix, suffixBytes] = [0, 0]
+        while suffix < len(chars) - prefix && suffix < len(newChars) - prefix
+                    \ && chars[-suffix - 1] ==# newChars[-suffix - 1]
+            let suffixBytes += len(chars[-suffix - 1])
+            let suffix += 1
+        endwhile
+        call add(a:result, [lnum - 1, prefixBytes, len(line) - suffixBytes,
+                    \ strpart(substituted, prefixBytes, len(substituted) - suffixBytes - prefixBytes)])
+    endfor
+endfunction
+
+" Used for inccommand preview. Returns [line, startByteCol, endByteCol, replacement] list of matches for :s command line
+function! VSCodeGetSubstitutePreview(cmdline)
+    if &inccommand ==# ''
+        return []
+    endif
+    if exists('*nvim_parse_cmd')
+        " neovim parses the range (marks, patterns, etc) and the command name itself
+        try
+            let cmd = nvim_parse_cmd(a:cmdline, {})
+        catch
+            return []
+        endtry
+        if cmd.cmd !=# 'substitute' || empty(cmd.args) || cmd.args[0] ==# ''
+            return []
+        endif
+        let cmdRange = join(cmd.range, ',')
+        let [delim, rest] = [cmd.args[0][0], cmd.args[0][1:]]
+        if delim =~# '[[:alnum:][:space:]\\"|]'
+            return []
+        endif
+    else
+        let parsed = matchlist(a:cmdline, '^\s*\([^a-zA-Z]\{-}\)s\%[ubstitute]\([^[:alnum:][:space:]\\"|]\)\(.*\)$')
+        if empty(parsed)
+            return []
+        endif
+        let [cmdRange, delim, rest] = parsed[1:3]
+    endif
+    " split pattern/replacement/flags by the unescaped delimiter
+    let parts = ['']
+    let i = 0
+    while i < len(rest)
+        let c = rest[i]
+        if c ==# '\' && i + 1 < len(rest)
+            let parts[-1] .= c . rest[i + 1]
+            let i += 2
+            continue
+        endif
+        if c ==# delim && len(parts) < 3
+            call add(parts, '')
+        else
+            let parts[-1] .= c
+        endif
+        let i += 1
+    endwhile
+    " no preview until the replacement is started. Don't evaluate \= expressions, they may have side effects.
+    " ~ (the previous replacement) isn't supported by substitute()
+    if len(parts) < 2 || parts[1] =~# '^\\=' || (&magic && parts[1] =~# '\%(^\|[^\\]\)\%(\\\\\)*\~')
+        return []
+    endif
+    let pattern = parts[0] ==# '' ? @/ : parts[0]
+    let flags = matchstr(get(parts, 2, ''), '^[&cegiInp#lr]*')
+    " n flag only counts the matches
+    if flags =~# 'n'
+        return []
+    endif
+    let pattern = (flags =~# 'I' ? '\C' : flags =~# 'i' ? '\c' : '') . pattern
+    " every g flag toggles 'gdefault'
+    let global = (len(substitute(flags, '[^g]', '', 'g')) + &gdefault) % 2
+    let result = []
+    " ranged :call moves the cursor to the range start
+    let view = winsaveview()
+    try
+        execute cmdRange . 'call s:collectSubstituteMatches(pattern, parts[1], global, result)'
+    catch
+        return []
+    finally
+        call winrestview(view)
+    endtry
+    return result
+endfunction
+
+" Used for incsearch preview. Lines/cols are 0-based, cols are byte cols. Returns the matches in the visible lines,
+" the current match, its index and the total matches count. The count is -1 if searchcount() is not available
+function! VSCodeGetSearchPreview(pattern, backward, line, col, topLine, height)
+    if a:pattern ==# ''
+        return {}
+    endif
+    let pattern = (&ignorecase && &smartcase && a:pattern =~# '\u' ? '\C' : '') . a:pattern
+    let view = winsaveview()
+    try
+        " the first match after the cursor for the forward search, the last match before the cursor for the backward search
+        call cursor(a:line + 1, a:col + 1)
+        let [mline, mcol] = searchpos(pattern, a:backward ? 'bw' : 'w')
+        if mline == 0
+            return {'matches': [], 'current': -1, 'total': 0}
+        endif
+        let currentMatch = [mline - 1, mcol - 1, mcol - 1]
+        for [mstart, mend] in s:getLineMatches(getline(mline), pattern, 1)
+            if mstart == mcol - 1
+                let currentMatch[2] = mend
+                break
+            endif
+        endfor
+        let [current, total, incomplete] = [-1, -1, 0]
+        if exists('*searchcount')
+            let counts = searchcount({'pattern': pattern, 'pos': [mline, mcol, 0], 'maxcount': 10000, 'timeout': 100})
+            let [current, total, incomplete] = [counts.current - 1, counts.total, counts.incomplete]
+        endif
+        let top = a:topLine
+        if mline - 1 < top || mline - 1 >= top + a:height
+            let top = max([0, mline - 1 - a:height / 2])
+        endif
+        let matches = []
+        for lnum in range(top + 1, min([line('$'), top + a:height]))
+            for [mstart, mend] in s:getLineMatches(getline(lnum), pattern, 1)
+                call add(matches, [lnum - 1, mstart, mend])
+            endfor
+        endfor
+    catch
+        return {}
+    finally
+        call winrestview(view)
+    endtry
+    return {'matches': matches, 'current': current, 'total': total, 'incomplete': incomplete,
+                \ 'currentMatch': currentMatch}
+endfunction
+
+" Used for the command line history picker. Returns the history entries, the newest first
+function! VSCodeGetHistory(type)
+    let entries = []
+    for i in range(max([histnr(a:type), 0]), 1, -1)
+        let entry = histget(a:type, i)
+        if entry !=# ''
+            call add(entries, entry)
+        endif
+    endfor
+    return entries
+endfunction
+
+let s:completionKinds = {
+    \ 'command': 'command',
+    \ 'file': 'file', 'file_in_path': 'file', 'dir': 'file',
+    \ 'buffer': 'buffer',
+    \ 'option': 'option',
+    \ 'help': 'help',
+    \ }
+
+" Guess the completion kind from the command when getcmdcompltype() isn't available
+function! s:guessCompletionKind(cmdline)
+    let cmd = matchstr(a:cmdline, '^[[:space:]:]*\%([^a-zA-Z]*\)\zs[a-zA-Z]\+!\=\ze\s')
+    if cmd ==# ''
+        return 'command'
+    endif
+    let cmd = substitute(cmd, '!$', '', '')
+    if cmd =~# '^\%(se\%[t]\|setl\%[ocal]\|setg\%[lobal]\)$'
+        return 'option'
+    elseif cmd =~# '^\%(h\%[elp]\)$'
+        return 'help'
+    elseif cmd =~# '^\%(b\%[uffer]\|sb\%[uffer]\|bd\%[elete]\|bw\%[ipeout]\|bun\%[load]\)$'
+        return 'buffer'
+    elseif cmd =~# '^\%(e\%[dit]\|sp\%[lit]\|vs\%[plit]\|new\|vne\%[w]\|tabe\%[dit]\|tabnew\|r\%[ead]\|w\%[rite]\|sav\%[eas]\|so\%[urce]\|cd\|lcd\|tcd\)$'
+        return 'file'
+    endif
+    return ''
+endfunction
+
+" Used for the command line completion items. Returns the completion kind of each item (command, usercommand, file,
+" buffer, option or help) and the current values for the option items
+function! VSCodeGetCmdlineCompletionInfo(items)
+    let cmdline = getcmdline()
+    let kind = exists('*getcmdcompltype') ? get(s:completionKinds, getcmdcompltype(), '') : s:guessCompletionKind(cmdline)
+    let kinds = repeat([kind], len(a:items))
+    if kind ==# 'command'
+        " builtin and user commands are completed together
+        let userCommands = extend(nvim_get_commands({}), nvim_buf_get_commands(0, {}))
+        let kinds = map(copy(a:items), 'has_key(userCommands, v:val) ? "usercommand" : "command"')
+    endif
+    let values = []
+    if kind ==# 'option'
+        for item in a:items
+            let name = substitute(item, '[=!&^+-]*$', '', '')
+            if !exists('&' . name)
+                let name = substitute(name, '^\%(no\|inv\)', '', '')
+            endif
+            call add(values, exists('&' . name) ? string(eval('&' . name)) : '')
+        endfor
+    endif
+    return {'kinds': kinds, 'values': values}
+endfunction
+
+" Used for the statusline rendering in vscode status bar. Returns the evaluated statusline as [text, color] segments,
+" the color is taken from the segment highlight group
+function! VSCodeEvalStatusline(maxwidth)
+    let stl = &statusline
+    if stl =~# '^%!'
+        let stl = eval(stl[2:])
+    endif
+    if !exists('*nvim_eval_statusline') || stl ==# ''
+        return []
+    endif
+    let res = nvim_eval_statusline(stl, {'maxwidth': a:maxwidth, 'highlights': v:true})
+    let hls = get(res, 'highlights', [])
+    if empty(hls) || hls[0].start > 0
+        call insert(hls, {'start': 0, 'group': 'StatusLine'})
+    endif
+    let segments = []
+    for i in range(len(hls))
+        let endByte = i + 1 < len(hls) ? hls[i + 1].start : len(res.str)
+        let id = synIDtrans(hlID(hls[i].group))
+        let color = synIDattr(id, synIDattr(id, 'reverse', 'gui') ? 'bg#' : 'fg#', 'gui')
+        call add(segments, [strpart(res.str, hls[i].start, endByte - hls[i].start), color])
+    endfor
+    return segments
+endfunction
+
+" Called from extension for the command line window document. <CR> executes the current line
+function! VSCodeSetupCmdwin(bufId, type)
+    call nvim_buf_set_var(a:bufId, 'vscode_cmdwin', a:type)
+    call nvim_buf_set_keymap(a:bufId, 'n', '<CR>', ':<C-u>call VSCodeExtensionNotify("cmdwin-execute", b:vscode_cmdwin, getline("."))<CR>', { 'noremap': v:true, 'silent': v:true })
+endfunction
+
 function! VSCodeClearJumpIfFirstWin()
     let currWin = nvim_get_current_win()
     if currWin == g:vscode_primary_win && w:vscode_clearjump
@@ -122,6 +444,10 @@ endfunction
 
 " This is called by extension when created new buffer
 function! s:onBufEnter(name, id)
+    " buffers of other tabpages (e.g. :tab {cmd}) are moved to new editor groups by the extension
+    if tabpagenr() != 1
+        return
+    endif
     set conceallevel=0
     let tabstop = &tabstop
     let isJumping = 0
@@ -161,6 +487,9 @@ execute 'source ' . s:currDir . '/vscode-code-actions.vim'
 execute 'source ' . s:currDir . '/vscode-file-commands.vim'
 execute 'source ' . s:currDir . '/vscode-tab-commands.vim'
 execute 'source ' . s:currDir . '/vscode-window-commands.vim'
+if has('nvim-0.5')
+    execute 'luafile ' . s:currDir . '/vscode-buffer-bytes.lua'
+endif
 
 " autocmd BufWinEnter,WinNew,WinEnter * :only
 autocmd BufEnter * call <SID>onBufEnter(expand('<afile>'), expand('<abuf>'))
@@ -171,3 +500,7 @@ autocmd InsertEnter * call <SID>onInsertEnter()
 autocmd BufAdd * call <SID>runFileTypeDetection()
 " Looks like external windows are coming with "set wrap" set automatically, disable them
 autocmd WinNew,WinEnter * :set nowrap
+" Visual submode (v/V/<C-v>) switches don't produce mode_change, notify them for the mode indicator
+if exists('##ModeChanged')
+    autocmd ModeChanged *:[vV\x16sS\x13]* call VSCodeExtensionNotify('mode-changed', v:event.new_mode)
+endif
@@ -32,8 +32,10 @@ set list
 set syntax=off
 set signcolumn=no
 
-" Disable statusline and ruler since we don't need them anyway
-set statusline=
+" Disable statusline and ruler since we don't need them anyway. The statusline is kept if it's rendered in vscode status bar
+if !get(g:, 'vscode_render_statusline', 0)
+    set statusline=
+endif
 set laststatus=0
 set noruler
 
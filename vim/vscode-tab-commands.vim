@@ -6,11 +6,23 @@ function! s:switchEditor(...)
     endfor
 endfunction
 
+" With count goes to the tab page (editor group) as vim does, without count switches editors in the active group
+function! s:switchTab(...)
+    let count = a:1
+    let direction = a:2
+    if count
+        call VSCodeExtensionNotify('tab-go', count, direction)
+    else
+        call <SID>switchEditor(0, direction)
+    endif
+endfunction
+
 command! -nargs=? Tabedit if <q-args> == '' | call VSCodeNotify('workbench.action.quickOpen') | else | call VSCodeExtensionNotify('open-file', expand(<q-args>), 0) | endif
 command! Tabnew call VSCodeExtensionNotify('open-file', '__vscode_new__', 0)
 command! Tabfind call VSCodeNotify('workbench.action.quickOpen')
-command! Tab echoerr 'Not supported'
-command! Tabs echoerr 'Not supported'
+" The new tabpage is moved to a new editor group by the extension
+command! -nargs=+ -complete=command Tab execute 'tab ' . <q-args>
+command! Tabs call VSCodeExtensionNotify('tabs')
 command! -bang Tabclose if <q-bang> == '!' | call VSCodeNotify('workbench.action.revertAndCloseActiveEditor') | else | call VSCodeNotify('workbench.action.closeActiveEditor') | endif
 command! Tabonly call VSCodeNotify('workbench.action.closeOtherEditors')
 command! -nargs=? Tabnext call <SID>switchEditor(<q-args>, 'next')
@@ -18,7 +30,7 @@ command! -nargs=? Tabprevious call <SID>switchEditor(<q-args>, 'prev')
 command! Tabfirst call VSCodeNotify('workbench.action.firstEditorInGroup')
 command! Tablast call VSCodeNotify('workbench.action.lastEditorInGroup')
 command! Tabrewind call VSCodeNotify('workbench.action.firstEditorInGroup')
-command! -nargs=? Tabmove echoerr 'Not supported yet'
+command! -nargs=? Tabmove call VSCodeExtensionNotify('tab-move', <q-args>)
 
 AlterCommand tabe[dit] Tabedit
 AlterCommand tabnew Tabnew
@@ -35,7 +47,7 @@ AlterCommand tabl[ast] Tablast
 AlterCommand tabm[ove] Tabmove
 
 " <C-u> is needed to clear prev count
-nnoremap <silent> gt :<C-U>call <SID>switchEditor(v:count, 'next')<CR>
-xnoremap <silent> gt :<C-U>call <SID>switchEditor(v:count, 'next')<CR>
-nnoremap <silent> gT :<C-U>call <SID>switchEditor(v:count, 'prev')<CR>
-xnoremap <silent> gT :<C-U>call <SID>switchEditor(v:count, 'prev')<CR>
+nnoremap <silent> gt :<C-U>call <SID>switchTab(v:count, 'next')<CR>
+xnoremap <silent> gt :<C-U>call <SID>switchTab(v:count, 'next')<CR>
+nnoremap <silent> gT :<C-U>call <SID>switchTab(v:count, 'prev')<CR>
+xnoremap <silent> gT :<C-U>call <SID>switchTab(v:count, 'prev')<CR>